@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo, useSyncExternalStore } from 'react';
 import { 
   Monitor, 
   FileText, 
@@ -21,7 +21,33 @@ import {
   Menu,
   X,
   Minus,
-  Square
+  Square,
+  ArrowLeft,
+  Users,
+  UserPlus,
+  UserMinus,
+  Heart,
+  Quote,
+  Smile,
+  Lock,
+  Wand2,
+  Mail,
+  Send,
+  Network,
+  Hash,
+  VolumeX,
+  Bell,
+  Bookmark,
+  List,
+  BookOpen,
+  Save,
+  FolderOpen,
+  FilePlus,
+  Eye,
+  HardDrive,
+  Upload,
+  Copy,
+  ArrowUp
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { clsx, type ClassValue } from 'clsx';
@@ -29,13 +55,151 @@ import { twMerge } from 'tailwind-merge';
 import { 
   SimplePool, 
   getPublicKey, 
-  finalizeEvent, 
+  generateSecretKey,
+  nip10,
+  nip18,
   nip19,
-  type Event as NostrEvent
+  nip25,
+  nip11,
+  type Event as NostrEvent,
+  type EventTemplate,
+  type Filter
 } from 'nostr-tools';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import ReactMarkdown from 'react-markdown';
+import { useQuery, useQueries, useInfiniteQuery, useMutation, useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { zapEvent, sumZapReceipts, fetchZapperPubkey } from './zaps';
+import { 
+  type DirectMessage, 
+  createDirectMessageWraps, 
+  unwrapDirectMessage, 
+  decryptLegacyMessage, 
+  fetchDmRelays, 
+  groupConversations 
+} from './dms';
+import { 
+  type RelayMode, 
+  buildRelayListTemplate, 
+  rememberRelayList, 
+  queryOutbox, 
+  queryOutboxStrict, 
+  publishOutbox,
+  getInboxRelays 
+} from './outbox';
+import { eventStore } from './eventStore';
+import { 
+  type MuteKind, 
+  type MuteList, 
+  type MuteEntries, 
+  type SpamSettings, 
+  DEFAULT_SPAM_SETTINGS, 
+  parseMuteList, 
+  buildMuteListTemplate, 
+  updateMuteList, 
+  mergeMuteEntries, 
+  emptyMuteEntries, 
+  isMuted, 
+  findFloods 
+} from './moderation';
+import { 
+  type NostrNotification, 
+  type NotificationType, 
+  type ReadState, 
+  notificationFilter, 
+  classifyNotification, 
+  loadReadState, 
+  saveReadState, 
+  isUnread, 
+  describeNotification 
+} from './notifications';
+import { 
+  type FollowSet, 
+  latestEvent, 
+  parseBookmarks, 
+  buildBookmarksTemplate, 
+  parseFollowSets, 
+  newFollowSet, 
+  buildFollowSetTemplate, 
+  buildFollowSetDeletion 
+} from './lists';
+import { 
+  type Article, 
+  type ArticleFields, 
+  ARTICLE_KIND, 
+  DRAFT_KIND, 
+  parseArticle, 
+  emptyArticle, 
+  buildArticleTemplate, 
+  articleAddress, 
+  latestArticles 
+} from './articles';
+import { 
+  type StoredBlob, 
+  type UploadReport, 
+  DEFAULT_BLOSSOM_SERVERS, 
+  SERVER_LIST_KIND, 
+  effectiveServers, 
+  normalizeServer, 
+  parseServerList, 
+  buildServerListTemplate, 
+  blobUrls, 
+  uploadMedia, 
+  mirrorToServers, 
+  listAllBlobs, 
+  deleteBlob 
+} from './blossom';
+import { DEFAULT_SEARCH_RELAYS, resolveIdentifier, searchEvents } from './search';
+import { type ContentBlock, type MediaMeta, parseNoteContent, isProfilePointer, withContentTags, buildImetaTag } from './content';
+import { 
+  type Rect, 
+  type ResizeEdge, 
+  TASKBAR_HEIGHT, 
+  moveRect, 
+  resizeRect, 
+  saveWindowGeometry, 
+  withSavedGeometry, 
+  loadSession, 
+  saveSession, 
+  withSavedSession, 
+  loadDraft, 
+  saveDraft, 
+  clearDrafts 
+} from './desktop';
+import { type ImageInfo, MAX_IMAGE_DIMENSION, canProcessImage, isMetadataFree, withSniffedType, describeImage, processImage } from './images';
+import { 
+  type PublishResult, 
+  startPublishQueue, 
+  flushPublishQueue, 
+  subscribePublishQueue, 
+  getPublishQueue 
+} from './publishQueue';
+import { 
+  type RelayStats, 
+  instrumentPool, 
+  subscribeRelayStats, 
+  getRelayStats, 
+  statsFor, 
+  isRelayUnhealthy, 
+  probeRelay, 
+  validateRelayUrl 
+} from './relayHealth';
+import QRCode from 'qrcode';
+import { 
+  type Signer, 
+  createLocalSigner, 
+  createNip07Signer, 
+  connectBunker, 
+  startNostrConnect, 
+  restoreBunkerSigner, 
+  clearBunkerSession,
+  getStoredNcryptsec,
+  getLegacyStoredKey,
+  storeEncryptedKey,
+  importNcryptsec,
+  unlockNcryptsec,
+  clearStoredKey
+} from './signer';
 
 // --- Utility ---
 function cn(...inputs: ClassValue[]) {
@@ -53,7 +217,55 @@ const hexToBytes = (hex: string) => {
 const bytesToHex = (bytes: Uint8Array) => 
   Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
 
-const BLOSSOM_SERVERS = ['https://blossom.nostr.wine', 'https://satellite.earth', 'https://nostrcheck.me'];
+// Every signature goes through the active signer, whatever backs it
+const signEventTemplate = async (template: EventTemplate, signer: Signer | null): Promise<NostrEvent> => {
+  if (!signer) throw new Error("No signing method available");
+  return signer.signEvent(template);
+};
+
+/** useState that survives reloads as part of the desktop session, kept apart per account */
+const usePersistentState = <T,>(account: string | null, key: string, initial: T) => {
+  const [value, setValue] = useState<T>(() => loadDraft<T>(account, key) ?? initial);
+  // A different login swaps in its own draft instead of inheriting this one
+  const [loadedFor, setLoadedFor] = useState(account);
+  if (loadedFor !== account) {
+    setLoadedFor(account);
+    setValue(loadDraft<T>(account, key) ?? initial);
+  }
+  useEffect(() => saveDraft(account, key, value), [account, key, value]);
+  return [value, setValue] as const;
+};
+
+/** Strips image metadata before an upload, asking before large photos are scaled down; null if the user backs out */
+const prepareMedia = async (upload: File): Promise<{ file: File, info: ImageInfo | null } | null> => {
+  const file = await withSniffedType(upload);
+  // Untyped files may be images we failed to recognise, so they get the same warning as unknown image types
+  if (file.type && !file.type.startsWith('image/')) return { file, info: null };
+  if (isMetadataFree(file)) return { file, info: await describeImage(file) };
+  if (!canProcessImage(file)) {
+    return confirm(`${file.name} cannot have its metadata removed. Upload the original anyway? It may contain location data.`)
+      ? { file, info: await describeImage(file) }
+      : null;
+  }
+  try {
+    const processed = await processImage(file, {
+      confirmResize: (width, height) => confirm(`${file.name} is ${width}×${height}. Scale it down to ${MAX_IMAGE_DIMENSION}px before uploading?`),
+    });
+    return { file: processed.file, info: processed };
+  } catch (e: any) {
+    return confirm(`${e.message}. Upload the original anyway? It may contain location data.`) ? { file, info: null } : null;
+  }
+};
+
+// Picks the signer matching whatever the last login stored
+const restoreSigner = (pool: SimplePool): Signer | null => {
+  const sk = getLegacyStoredKey();
+  if (sk) return createLocalSigner(hexToBytes(sk));
+  if (getStoredNcryptsec()) return null; // Stays locked until the password is entered
+  const bunker = restoreBunkerSigner(pool);
+  if (bunker) return bunker;
+  return localStorage.getItem('nostr_pk') ? createNip07Signer() : null;
+};
 
 // --- Constants ---
 const DEFAULT_RELAYS = [
@@ -75,7 +287,14 @@ const DEFAULT_RELAYS = [
 ];
 
 // --- Types ---
-type AppId = 'myComputer' | 'chrome' | 'notepad' | 'paint' | 'doom' | 'gemini' | 'minesweeper' | 'mediaPlayer' | 'nostalgia' | 'settings';
+type AppId = 'myComputer' | 'chrome' | 'notepad' | 'paint' | 'doom' | 'gemini' | 'minesweeper' | 'mediaPlayer' | 'nostalgia' | 'messages' | 'notifications' | 'lists' | 'media' | 'search' | 'network' | 'settings';
+
+// Other windows ask Nostalgia to show something through this
+type NostalgiaRoute = 
+  | { type: 'profile', pubkey: string }
+  | { type: 'thread', event: NostrEvent }
+  | { type: 'hashtag', tag: string }
+  | { type: 'list', id: string };
 
 interface WindowState {
   id: AppId;
@@ -86,8 +305,130 @@ interface WindowState {
   zIndex: number;
   x: number;
   y: number;
+  /** Set once the user resizes the window */
+  width?: number;
+  height?: number;
+  isMaximized?: boolean;
+}
+
+// --- Threads (NIP-10) ---
+const MAX_THREAD_DEPTH = 20;
+
+const getParentId = (event: NostrEvent) => {
+  const { root, reply } = nip10.parse(event);
+  return reply?.id ?? root?.id ?? null;
+};
+
+const getRootId = (event: NostrEvent) => nip10.parse(event).root?.id ?? event.id;
+
+// Marked `e` tags plus every `p` of the parent, so the whole thread gets notified
+const buildReplyTags = (parent: NostrEvent, userPk: string) => {
+  const { root } = nip10.parse(parent);
+  const tags: string[][] = root
+    ? [['e', root.id, root.relays?.[0] ?? '', 'root', root.author ?? ''], ['e', parent.id, '', 'reply', parent.pubkey]]
+    : [['e', parent.id, '', 'root', parent.pubkey]];
+
+  const pubkeys = new Set([parent.pubkey, ...parent.tags.filter(t => t[0] === 'p' && t[1]).map(t => t[1])]);
+  pubkeys.delete(userPk);
+  pubkeys.forEach(pk => tags.push(['p', pk]));
+  return tags;
+};
+
+// Flattens a set of thread events into depth-first order, oldest reply first
+const flattenThread = (events: NostrEvent[]) => {
+  const byId = new Map(events.map(e => [e.id, e]));
+  const children = new Map<string, NostrEvent[]>();
+  const tops: NostrEvent[] = [];
+  events.forEach(e => {
+    const parentId = getParentId(e);
+    if (parentId && parentId !== e.id && byId.has(parentId)) {
+      children.set(parentId, [...(children.get(parentId) ?? []), e]);
+    } else {
+      tops.push(e);
+    }
+  });
+
+  const result: { event: NostrEvent, depth: number }[] = [];
+  const visit = (event: NostrEvent, depth: number) => {
+    result.push({ event, depth });
+    (children.get(event.id) ?? [])
+      .sort((a, b) => a.created_at - b.created_at)
+      .forEach(child => visit(child, depth + 1));
+  };
+  tops.sort((a, b) => a.created_at - b.created_at).forEach(e => visit(e, 0));
+  return result;
+};
+
+// --- Reposts & Reactions (NIP-18 / NIP-25) ---
+interface NoteStats {
+  zaps: number;
+  reposts: number;
+  /** `mine` marks the reactions the logged in user has already sent */
+  reactions: Record<string, { count: number, url?: string, mine?: boolean }>;
 }
 
+const QUICK_REACTIONS = ['+', '🤙', '🔥', '😂', '🫂', '👀'];
+
+const isRepost = (event: NostrEvent) => event.kind === 6 || event.kind === 16;
+
+// Stats and zaps for a repost belong to the note it points at
+const getStatsTargetId = (event: NostrEvent) => 
+  isRepost(event) ? nip18.getRepostedEventPointer(event)?.id ?? event.id : event.id;
+
+const buildRepostTemplate = (note: NostrEvent): EventTemplate => ({
+  kind: note.kind === 1 ? 6 : 16,
+  created_at: Math.floor(Date.now() / 1000),
+  tags: [['e', note.id, ''], ['p', note.pubkey], ...(note.kind === 1 ? [] : [['k', String(note.kind)]])],
+  content: JSON.stringify(note),
+});
+
+const buildQuoteTags = (note: NostrEvent) => [['q', note.id, '', note.pubkey], ['p', note.pubkey]];
+
+const quoteReference = (note: NostrEvent) => 
+  `nostr:${nip19.neventEncode({ id: note.id, author: note.pubkey, kind: note.kind })}`;
+
+// Custom emoji reactions are sent as `:shortcode:` with a NIP-30 `emoji` tag
+const buildReactionTemplate = (note: NostrEvent, content: string, emojiUrl?: string): EventTemplate => ({
+  kind: 7,
+  created_at: Math.floor(Date.now() / 1000),
+  tags: [
+    ['e', note.id, ''],
+    ['p', note.pubkey],
+    ['k', String(note.kind)],
+    ...(emojiUrl ? [['emoji', content.replace(/:/g, ''), emojiUrl]] : []),
+  ],
+  content,
+});
+
+// A reaction counts once per person and emoji, however often it was sent
+const countEngagement = (events: NostrEvent[], userPk: string | null) => {
+  const stats: Record<string, Omit<NoteStats, 'zaps'>> = {};
+  const entry = (id: string) => (stats[id] ??= { reposts: 0, reactions: {} });
+  const reacted = new Set<string>();
+  events.forEach(e => {
+    if (e.kind === 7) {
+      const target = nip25.getReactedEventPointer(e)?.id;
+      if (!target || e.content === '-') return;
+      const key = e.content || '+';
+      if (reacted.has(`${target}:${e.pubkey}:${key}`)) return;
+      reacted.add(`${target}:${e.pubkey}:${key}`);
+      const url = e.tags.find(t => t[0] === 'emoji' && `:${t[1]}:` === key)?.[2];
+      const reactions = entry(target).reactions;
+      reactions[key] = { 
+        count: (reactions[key]?.count ?? 0) + 1, 
+        url: reactions[key]?.url ?? url, 
+        mine: reactions[key]?.mine || e.pubkey === userPk,
+      };
+    } else if (isRepost(e)) {
+      const target = nip18.getRepostedEventPointer(e)?.id;
+      if (target) entry(target).reposts++;
+    } else {
+      e.tags.filter(t => t[0] === 'q' && t[1]).forEach(t => entry(t[1]).reposts++);
+    }
+  });
+  return stats;
+};
+
 // --- Components ---
 
 const TaskbarIcon = ({ icon, label, isActive, onClick }: { icon: React.ReactNode, label: string, isActive: boolean, onClick: () => void }) => (
@@ -120,7 +461,8 @@ const DesktopIcon = ({ icon, label, onDoubleClick }: { icon: React.ReactNode, la
 // --- Main App ---
 
 export default function App() {
-  const [windows, setWindows] = useState<Record<AppId, WindowState>>({
+  const [restored] = useState(() => loadSession<AppId>());
+  const [windows, setWindows] = useState<Record<AppId, WindowState>>(() => withSavedGeometry(withSavedSession({
     myComputer: { id: 'myComputer', title: 'My Gemtop', icon: <Monitor size={16} />, isOpen: false, isMinimized: false, zIndex: 10, x: 50, y: 50 },
     chrome: { id: 'chrome', title: 'Chrome', icon: <Chrome size={16} />, isOpen: false, isMinimized: false, zIndex: 10, x: 70, y: 70 },
     notepad: { id: 'notepad', title: 'GemNotes', icon: <FileText size={16} />, isOpen: false, isMinimized: false, zIndex: 10, x: 90, y: 90 },
@@ -130,27 +472,116 @@ export default function App() {
     minesweeper: { id: 'minesweeper', title: 'GemSweeper', icon: <Zap size={16} />, isOpen: false, isMinimized: false, zIndex: 10, x: 170, y: 170 },
     mediaPlayer: { id: 'mediaPlayer', title: 'GemPlayer', icon: <Music size={16} />, isOpen: false, isMinimized: false, zIndex: 10, x: 190, y: 190 },
     nostalgia: { id: 'nostalgia', title: 'Nostalgia', icon: <Globe size={16} />, isOpen: true, isMinimized: false, zIndex: 20, x: 100, y: 40 },
+    messages: { id: 'messages', title: 'Messages', icon: <Mail size={16} />, isOpen: false, isMinimized: false, zIndex: 10, x: 200, y: 60 },
+    notifications: { id: 'notifications', title: 'Notifications', icon: <Bell size={16} />, isOpen: false, isMinimized: false, zIndex: 10, x: 240, y: 70 },
+    lists: { id: 'lists', title: 'Lists & Bookmarks', icon: <Bookmark size={16} />, isOpen: false, isMinimized: false, zIndex: 10, x: 220, y: 100 },
+    media: { id: 'media', title: 'Media Manager', icon: <HardDrive size={16} />, isOpen: false, isMinimized: false, zIndex: 10, x: 230, y: 120 },
+    search: { id: 'search', title: 'Find: Files or Notes', icon: <Search size={16} />, isOpen: false, isMinimized: false, zIndex: 10, x: 180, y: 80 },
+    network: { id: 'network', title: 'Network Neighborhood', icon: <Network size={16} />, isOpen: false, isMinimized: false, zIndex: 10, x: 160, y: 90 },
     settings: { id: 'settings', title: 'Settings', icon: <SettingsIcon size={16} />, isOpen: false, isMinimized: false, zIndex: 10, x: 210, y: 210 },
-  });
+  }, restored)));
 
-  const [activeApp, setActiveApp] = useState<AppId | null>('nostalgia');
-  const [highestZIndex, setHighestZIndex] = useState(20);
+  const [activeApp, setActiveApp] = useState<AppId | null>(restored ? restored.activeApp : 'nostalgia');
+  const [highestZIndex, setHighestZIndex] = useState(() => Math.max(20, ...Object.values(windows).map(w => w.zIndex)));
   const [isStartMenuOpen, setIsStartMenuOpen] = useState(false);
-  const [theme, setTheme] = useState<'light' | 'dark'>('dark');
+  const [theme, setTheme] = useState<'light' | 'dark'>(restored?.theme ?? 'dark');
+  const [isShutDown, setIsShutDown] = useState(false);
 
   // Nostr State
   const [relays, setRelays] = useState<string[]>(() => {
     const saved = localStorage.getItem('nostr_relays');
     return saved ? JSON.parse(saved) : DEFAULT_RELAYS;
   });
-  const [userSk, setUserSk] = useState<string | null>(localStorage.getItem('nostr_sk'));
+  const pool = useRef(instrumentPool(new SimplePool()));
   const [userPk, setUserPk] = useState<string | null>(localStorage.getItem('nostr_pk'));
-  const pool = useRef(new SimplePool());
+  const [signer, setSigner] = useState<Signer | null>(() => restoreSigner(pool.current));
+  const [passwordPrompt, setPasswordPrompt] = useState<'unlock' | 'protect' | null>(() => 
+    getStoredNcryptsec() ? 'unlock' : getLegacyStoredKey() ? 'protect' : null
+  );
+  const [isWizardOpen, setIsWizardOpen] = useState(false);
+  const [lockMinutes, setLockMinutes] = useState<number>(() => Number(localStorage.getItem('nostr_lock_minutes') ?? 15));
+  const isLocked = !signer && !!getStoredNcryptsec();
+
+  const [disabledRelays, setDisabledRelays] = useState<string[]>(() => 
+    JSON.parse(localStorage.getItem('nostr_disabled_relays') ?? '[]')
+  );
+  // Disabled relays stay in the list but nothing is sent to them
+  const activeRelays = useMemo(() => relays.filter(r => !disabledRelays.includes(r)), [relays, disabledRelays]);
+  const [relayModes, setRelayModes] = useState<Record<string, RelayMode>>(() => 
+    JSON.parse(localStorage.getItem('nostr_relay_modes') ?? '{}')
+  );
+  const [searchRelays, setSearchRelays] = useState<string[]>(() => {
+    const saved = localStorage.getItem('nostr_search_relays');
+    return saved ? JSON.parse(saved) : DEFAULT_SEARCH_RELAYS;
+  });
+  const [nostalgiaRoute, setNostalgiaRoute] = useState<NostalgiaRoute | null>(null);
+  const [spamSettings, setSpamSettings] = useState<SpamSettings>(() => ({
+    ...DEFAULT_SPAM_SETTINGS,
+    ...JSON.parse(localStorage.getItem('nostr_spam_filter') ?? '{}'),
+  }));
 
   useEffect(() => {
     localStorage.setItem('nostr_relays', JSON.stringify(relays));
   }, [relays]);
 
+  useEffect(() => {
+    localStorage.setItem('nostr_relay_modes', JSON.stringify(relayModes));
+  }, [relayModes]);
+
+  useEffect(() => {
+    localStorage.setItem('nostr_disabled_relays', JSON.stringify(disabledRelays));
+  }, [disabledRelays]);
+
+  useEffect(() => {
+    localStorage.setItem('nostr_search_relays', JSON.stringify(searchRelays));
+  }, [searchRelays]);
+
+  useEffect(() => {
+    localStorage.setItem('nostr_spam_filter', JSON.stringify(spamSettings));
+  }, [spamSettings]);
+
+  const [readState, setReadState] = useState<ReadState>(() => userPk ? loadReadState(userPk) : { readAt: 0, ids: [] });
+  const [browserAlerts, setBrowserAlerts] = useState(() => localStorage.getItem('nostr_notify_browser') === 'true');
+  const { mutes } = useMuteList(pool.current, activeRelays, userPk, signer);
+  const notifications = useNotifications(pool.current, activeRelays, userPk, browserAlerts, mutes);
+  const visibleNotifications = useMemo(() => notifications.filter(n => !isMutedNotification(n, mutes)), [notifications, mutes]);
+  const unreadCount = visibleNotifications.filter(n => isUnread(n, readState)).length;
+
+  useEffect(() => {
+    setReadState(userPk ? loadReadState(userPk) : { readAt: 0, ids: [] });
+  }, [userPk]);
+
+  useEffect(() => {
+    localStorage.setItem('nostr_notify_browser', String(browserAlerts));
+  }, [browserAlerts]);
+
+  const updateReadState = (state: ReadState) => {
+    setReadState(state);
+    if (userPk) saveReadState(userPk, state);
+  };
+
+  useEffect(() => startPublishQueue(pool.current), []);
+
+  useEffect(() => {
+    localStorage.setItem('nostr_lock_minutes', String(lockMinutes));
+  }, [lockMinutes]);
+
+  // Forgets the decrypted key after a stretch without input; the ncryptsec stays stored
+  useEffect(() => {
+    if (!lockMinutes || signer?.type !== 'local' || !getStoredNcryptsec()) return;
+    let lastActivity = Date.now();
+    const touch = () => { lastActivity = Date.now(); };
+    const activityEvents = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart'];
+    activityEvents.forEach(e => window.addEventListener(e, touch, { passive: true }));
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivity >= lockMinutes * 60_000) lockSession();
+    }, 15_000);
+    return () => {
+      clearInterval(timer);
+      activityEvents.forEach(e => window.removeEventListener(e, touch));
+    };
+  }, [signer, lockMinutes, passwordPrompt]);
+
   const openApp = (id: AppId) => {
     setHighestZIndex(prev => prev + 1);
     setWindows(prev => ({
@@ -161,6 +592,11 @@ export default function App() {
     setIsStartMenuOpen(false);
   };
 
+  const navigateNostalgia = (route: NostalgiaRoute) => {
+    setNostalgiaRoute(route);
+    openApp('nostalgia');
+  };
+
   const closeApp = (id: AppId) => {
     setWindows(prev => ({
       ...prev,
@@ -186,35 +622,116 @@ export default function App() {
     setActiveApp(id);
   };
 
+  const setWindowGeometry = (id: AppId, geometry: Partial<Rect>) => {
+    setWindows(prev => ({
+      ...prev,
+      [id]: { ...prev[id], ...geometry }
+    }));
+  };
+
+  const toggleMaximize = (id: AppId) => {
+    setWindows(prev => ({
+      ...prev,
+      [id]: { ...prev[id], isMaximized: !prev[id].isMaximized }
+    }));
+  };
+
+  const saveDesktop = () => {
+    saveWindowGeometry(windows);
+    saveSession(windows, activeApp, theme);
+  };
+
+  useEffect(saveDesktop, [windows, activeApp, theme]);
+
+  const shutDown = () => {
+    saveDesktop();
+    setIsStartMenuOpen(false);
+    setIsShutDown(true);
+  };
+
   const toggleStartMenu = () => setIsStartMenuOpen(!isStartMenuOpen);
 
   // --- Nostr Logic ---
-  const loginWithSk = (sk: string) => {
+  const applySigner = async (next: Signer) => {
+    const pk = await next.getPublicKey();
+    if (signer !== next) await signer?.close?.();
+    if (next.type !== 'nip46') clearBunkerSession();
+    if (next.type !== 'local') clearStoredKey();
+    setSigner(next);
+    setUserPk(pk);
+    localStorage.setItem('nostr_pk', pk);
+  };
+
+  // Accepts an nsec/hex key or an exported ncryptsec; either way only the ncryptsec is stored.
+  // Resolves false on failure so the form can keep what was typed.
+  const loginWithSk = async (sk: string, password: string) => {
     try {
-      let hexSk = sk;
-      if (sk.startsWith('nsec')) {
-        const { data } = nip19.decode(sk);
-        hexSk = bytesToHex(data as Uint8Array);
+      if (!password) throw new Error("Enter a password to protect your key");
+      let secretKey: Uint8Array;
+      if (sk.startsWith('ncryptsec')) {
+        secretKey = importNcryptsec(sk, password);
+      } else {
+        try {
+          let hexSk = sk;
+          if (sk.startsWith('nsec')) {
+            const { data } = nip19.decode(sk);
+            hexSk = bytesToHex(data as Uint8Array);
+          }
+          secretKey = hexToBytes(hexSk);
+          getPublicKey(secretKey); // Throws on a malformed key before anything is stored
+        } catch (e) {
+          throw new Error("Invalid secret key");
+        }
+        storeEncryptedKey(secretKey, password);
       }
-      const pk = getPublicKey(hexToBytes(hexSk));
-      setUserSk(hexSk);
-      setUserPk(pk);
-      localStorage.setItem('nostr_sk', hexSk);
-      localStorage.setItem('nostr_pk', pk);
+      await applySigner(createLocalSigner(secretKey));
       alert("Logged in successfully!");
-    } catch (e) {
-      alert("Invalid secret key");
+      return true;
+    } catch (e: any) {
+      alert(e.message);
+      return false;
+    }
+  };
+
+  // The wizard has already published the profile and relay list with this key
+  const completeWizard = async (secretKey: Uint8Array, password: string, starterRelays: string[]) => {
+    storeEncryptedKey(secretKey, password);
+    await applySigner(createLocalSigner(secretKey));
+    setRelays(starterRelays);
+    setIsWizardOpen(false);
+  };
+
+  const lockSession = () => {
+    setSigner(null);
+    setPasswordPrompt('unlock');
+  };
+
+  // Throws on a wrong password so the dialog can stay open
+  const submitPassword = async (password: string) => {
+    if (passwordPrompt === 'protect') {
+      const legacySk = getLegacyStoredKey();
+      if (legacySk) storeEncryptedKey(hexToBytes(legacySk), password);
+    } else {
+      const ncryptsec = getStoredNcryptsec();
+      if (!ncryptsec) throw new Error("No stored key to unlock");
+      await applySigner(createLocalSigner(unlockNcryptsec(ncryptsec, password)));
+    }
+    setPasswordPrompt(null);
+  };
+
+  // The plaintext key may not stay behind: skipping the migration removes it and logs out
+  const cancelPasswordPrompt = () => {
+    if (passwordPrompt === 'protect') {
+      if (confirm("Your unencrypted key will be removed from this computer and you will be logged out. Make sure you have a backup of your nsec. Continue?")) logout();
+      return;
     }
+    setPasswordPrompt(null);
   };
 
   const loginWithExtension = async () => {
     if ((window as any).nostr) {
       try {
-        const pk = await (window as any).nostr.getPublicKey();
-        setUserPk(pk);
-        setUserSk(null); // Extension handles signing
-        localStorage.setItem('nostr_pk', pk);
-        localStorage.removeItem('nostr_sk');
+        await applySigner(createNip07Signer()); // Extension handles signing
         alert("Logged in with extension!");
       } catch (e) {
         alert("Extension login failed");
@@ -224,13 +741,59 @@ export default function App() {
     }
   };
 
+  const loginWithBunker = async (uri: string) => {
+    try {
+      const remote = await connectBunker(uri, pool.current);
+      await applySigner(remote);
+      alert("Connected to remote signer!");
+    } catch (e: any) {
+      alert(`Remote signer login failed: ${e.message}`);
+    }
+  };
+
+  // Shows a nostrconnect:// URI and logs in once a signer app answers it
+  const loginWithNostrConnect = () => {
+    const session = startNostrConnect(pool.current);
+    let settled = false;
+    session.connected
+      .then(async (remote) => {
+        settled = true;
+        await applySigner(remote);
+      })
+      .catch((e) => {
+        if (!settled) alert(`Remote signer login failed: ${e.message}`);
+        settled = true;
+      });
+    return {
+      uri: session.uri,
+      cancel: () => {
+        if (settled) return;
+        settled = true;
+        session.cancel();
+      },
+    };
+  };
+
   const logout = () => {
-    setUserSk(null);
+    signer?.close?.();
+    clearDrafts();
+    clearBunkerSession();
+    clearStoredKey();
+    setSigner(null);
     setUserPk(null);
-    localStorage.removeItem('nostr_sk');
+    setPasswordPrompt(null);
     localStorage.removeItem('nostr_pk');
   };
 
+  // Everything is unmounted, so relay subscriptions close; a click boots the saved session again
+  if (isShutDown) {
+    return (
+      <div onClick={() => window.location.reload()} className="w-screen h-screen flex items-center justify-center bg-black cursor-default select-none">
+        <p className="text-[#FF8000] text-2xl font-bold text-center leading-relaxed">It's now safe to turn off<br />your computer.</p>
+      </div>
+    );
+  }
+
   return (
     <div className={cn(
       "desktop w-screen h-screen overflow-hidden relative font-sans select-none",
@@ -240,9 +803,12 @@ export default function App() {
       <div className="absolute top-4 left-4 flex flex-col gap-2">
         <DesktopIcon icon={<Monitor size={32} />} label="My Gemtop" onDoubleClick={() => openApp('myComputer')} />
         <DesktopIcon icon={<Globe size={32} />} label="Nostalgia" onDoubleClick={() => openApp('nostalgia')} />
+        <DesktopIcon icon={<Mail size={32} />} label="Messages" onDoubleClick={() => openApp('messages')} />
+        <DesktopIcon icon={<Network size={32} />} label="Network Neighborhood" onDoubleClick={() => openApp('network')} />
         <DesktopIcon icon={<Chrome size={32} />} label="Chrome" onDoubleClick={() => openApp('chrome')} />
         <DesktopIcon icon={<MessageSquare size={32} />} label="Gemini App" onDoubleClick={() => openApp('gemini')} />
         <DesktopIcon icon={<Music size={32} />} label="GemPlayer" onDoubleClick={() => openApp('mediaPlayer')} />
+        <DesktopIcon icon={<FileText size={32} />} label="GemNotes" onDoubleClick={() => openApp('notepad')} />
         <DesktopIcon icon={<SettingsIcon size={32} />} label="Settings" onDoubleClick={() => openApp('settings')} />
       </div>
 
@@ -256,29 +822,119 @@ export default function App() {
             onClose={() => closeApp(win.id)}
             onMinimize={() => minimizeApp(win.id)}
             onFocus={() => focusApp(win.id)}
+            onGeometryChange={(geometry) => setWindowGeometry(win.id, geometry)}
+            onToggleMaximize={() => toggleMaximize(win.id)}
             theme={theme}
           >
             {win.id === 'nostalgia' && (
               <NostalgiaApp 
                 pool={pool.current} 
-                relays={relays} 
+                relays={activeRelays} 
+                userPk={userPk} 
+                signer={signer} 
+                theme={theme}
+                spamSettings={spamSettings}
+                route={nostalgiaRoute}
+                onOpenNetwork={() => openApp('network')}
+              />
+            )}
+            {win.id === 'notifications' && (
+              <NotificationsApp 
+                pool={pool.current}
+                relays={activeRelays}
+                userPk={userPk}
+                notifications={visibleNotifications}
+                readState={readState}
+                onReadStateChange={updateReadState}
+                browserAlerts={browserAlerts}
+                setBrowserAlerts={setBrowserAlerts}
+                onNavigate={navigateNostalgia}
+                theme={theme}
+              />
+            )}
+            {win.id === 'lists' && (
+              <ListsApp 
+                pool={pool.current}
+                relays={activeRelays}
+                userPk={userPk}
+                signer={signer}
+                onNavigate={navigateNostalgia}
+                theme={theme}
+              />
+            )}
+            {win.id === 'media' && (
+              <MediaApp 
+                pool={pool.current}
+                relays={activeRelays}
+                userPk={userPk}
+                signer={signer}
+                theme={theme}
+              />
+            )}
+            {win.id === 'search' && (
+              <FindApp 
+                pool={pool.current} 
+                relays={activeRelays} 
+                searchRelays={searchRelays}
+                onNavigate={navigateNostalgia}
+                theme={theme}
+              />
+            )}
+            {win.id === 'messages' && (
+              <MessagesApp 
+                pool={pool.current} 
+                relays={activeRelays} 
                 userPk={userPk} 
-                userSk={userSk} 
+                signer={signer} 
+                theme={theme}
+              />
+            )}
+            {win.id === 'network' && (
+              <NetworkNeighborhoodApp 
+                pool={pool.current} 
+                relays={relays} 
+                disabledRelays={disabledRelays}
+                setDisabledRelays={setDisabledRelays}
                 theme={theme}
               />
             )}
             {win.id === 'settings' && (
               <SettingsApp 
+                pool={pool.current}
                 relays={relays} 
                 setRelays={setRelays} 
+                relayModes={relayModes}
+                setRelayModes={setRelayModes}
+                searchRelays={searchRelays}
+                setSearchRelays={setSearchRelays}
+                spamSettings={spamSettings}
+                setSpamSettings={setSpamSettings}
                 theme={theme} 
                 setTheme={setTheme}
                 userPk={userPk}
+                signer={signer}
+                isLocked={isLocked}
+                lockMinutes={lockMinutes}
+                setLockMinutes={setLockMinutes}
+                onLock={lockSession}
+                onUnlock={() => setPasswordPrompt('unlock')}
+                onCreateIdentity={() => setIsWizardOpen(true)}
                 loginWithSk={loginWithSk}
                 loginWithExtension={loginWithExtension}
+                loginWithBunker={loginWithBunker}
+                loginWithNostrConnect={loginWithNostrConnect}
                 logout={logout}
               />
             )}
+            {win.id === 'notepad' && (
+              <GemNotesApp 
+                pool={pool.current}
+                relays={activeRelays}
+                userPk={userPk}
+                signer={signer}
+                theme={theme}
+              />
+            )}
             {win.id === 'myComputer' && <div className="p-4">C: Drive is empty. Nostalgia is all you need.</div>}
             {win.id === 'chrome' && <div className="p-4">Browser is under construction. Use Nostalgia.</div>}
             {win.id === 'gemini' && <div className="p-4">Gemini AI is integrated into Nostalgia.</div>}
@@ -286,6 +942,24 @@ export default function App() {
         ))}
       </AnimatePresence>
 
+      {passwordPrompt && (
+        <PasswordDialog 
+          mode={passwordPrompt}
+          userPk={userPk}
+          onSubmit={submitPassword}
+          onCancel={cancelPasswordPrompt}
+        />
+      )}
+
+      {isWizardOpen && (
+        <NewConnectionWizard 
+          pool={pool.current}
+          relays={relays}
+          onComplete={completeWizard}
+          onCancel={() => setIsWizardOpen(false)}
+        />
+      )}
+
       {/* Start Menu */}
       {isStartMenuOpen && (
         <div className="absolute bottom-9 left-0 w-56 bg-[#C0C0C0] border-t-2 border-l-2 border-white border-b-2 border-r-2 border-black z-[100] shadow-xl">
@@ -295,10 +969,16 @@ export default function App() {
             </div>
             <div className="flex-grow py-1">
               <StartMenuItem icon={<Globe size={16} />} label="Nostalgia" onClick={() => openApp('nostalgia')} />
+              <StartMenuItem icon={<Mail size={16} />} label="Messages" onClick={() => openApp('messages')} />
+              <StartMenuItem icon={<Network size={16} />} label="Network Neighborhood" onClick={() => openApp('network')} />
+              <StartMenuItem icon={<Bookmark size={16} />} label="Lists & Bookmarks" onClick={() => openApp('lists')} />
+              <StartMenuItem icon={<FileText size={16} />} label="GemNotes" onClick={() => openApp('notepad')} />
+              <StartMenuItem icon={<HardDrive size={16} />} label="Media Manager" onClick={() => openApp('media')} />
+              <StartMenuItem icon={<Search size={16} />} label="Find..." onClick={() => openApp('search')} />
               <StartMenuItem icon={<Monitor size={16} />} label="My Gemtop" onClick={() => openApp('myComputer')} />
               <StartMenuItem icon={<SettingsIcon size={16} />} label="Settings" onClick={() => openApp('settings')} />
               <div className="h-[1px] bg-gray-400 my-1 mx-1" />
-              <StartMenuItem icon={<LogOut size={16} />} label="Shut Down..." onClick={() => window.location.reload()} />
+              <StartMenuItem icon={<LogOut size={16} />} label="Shut Down..." onClick={shutDown} />
             </div>
           </div>
         </div>
@@ -329,6 +1009,16 @@ export default function App() {
           ))}
         </div>
         <div className="ml-auto flex items-center gap-2 px-2 h-7 border-t border-l border-gray-600 border-b border-r border-white bg-[#C0C0C0] text-xs">
+          {userPk && (
+            <button onClick={() => openApp('notifications')} title={`${unreadCount} unread notifications`} className="relative flex items-center">
+              <Bell size={14} />
+              {unreadCount > 0 && (
+                <span className="absolute -top-1.5 -right-2 min-w-[14px] h-[14px] px-0.5 rounded-full bg-red-600 text-white text-[9px] font-bold leading-[14px] text-center">
+                  {unreadCount > 99 ? "99+" : unreadCount}
+                </span>
+              )}
+            </button>
+          )}
           <Zap size={14} className="text-yellow-600" />
           <span>{new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
         </div>
@@ -339,54 +1029,216 @@ export default function App() {
 
 // --- Sub-Components ---
 
-const Window = ({ window, isActive, onClose, onMinimize, onFocus, theme, children }: { 
+const RESIZE_HANDLES: { edge: ResizeEdge, className: string }[] = [
+  { edge: 'n', className: "top-0 left-2 right-2 h-1 cursor-ns-resize" },
+  { edge: 's', className: "bottom-0 left-2 right-2 h-1 cursor-ns-resize" },
+  { edge: 'e', className: "right-0 top-2 bottom-2 w-1 cursor-ew-resize" },
+  { edge: 'w', className: "left-0 top-2 bottom-2 w-1 cursor-ew-resize" },
+  { edge: 'nw', className: "top-0 left-0 w-2 h-2 cursor-nwse-resize" },
+  { edge: 'se', className: "bottom-0 right-0 w-2 h-2 cursor-nwse-resize" },
+  { edge: 'ne', className: "top-0 right-0 w-2 h-2 cursor-nesw-resize" },
+  { edge: 'sw', className: "bottom-0 left-0 w-2 h-2 cursor-nesw-resize" },
+];
+
+const Window = ({ window, isActive, onClose, onMinimize, onFocus, onGeometryChange, onToggleMaximize, theme, children }: { 
   window: WindowState, 
   isActive: boolean, 
   onClose: () => void, 
   onMinimize: () => void, 
   onFocus: () => void,
+  onGeometryChange: (geometry: Partial<Rect>) => void,
+  onToggleMaximize: () => void,
   theme: 'light' | 'dark',
   children: React.ReactNode 
 }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  // Geometry while a drag or resize is under way; App state only changes on release
+  const [live, setLive] = useState<Partial<Rect> | null>(null);
+  const gesture = useRef<{ edge: ResizeEdge | 'move', startX: number, startY: number, start: Rect } | null>(null);
+
+  const beginGesture = (edge: ResizeEdge | 'move') => (e: React.PointerEvent) => {
+    if (e.button !== 0 || window.isMaximized || !ref.current) return;
+    if (edge === 'move' && (e.target as HTMLElement).closest('button')) return;
+    const { offsetLeft: x, offsetTop: y, offsetWidth: width, offsetHeight: height } = ref.current;
+    gesture.current = { edge, startX: e.clientX, startY: e.clientY, start: { x, y, width, height } };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const updateGesture = (e: React.PointerEvent) => {
+    const g = gesture.current;
+    if (!g) return;
+    const dx = e.clientX - g.startX;
+    const dy = e.clientY - g.startY;
+    setLive(g.edge === 'move' ? moveRect(g.start, dx, dy) : resizeRect(g.start, g.edge, dx, dy));
+  };
+
+  const endGesture = () => {
+    if (!gesture.current) return;
+    gesture.current = null;
+    if (live) onGeometryChange(live);
+    setLive(null);
+  };
+
+  const gestureHandlers = (edge: ResizeEdge | 'move') => ({
+    onPointerDown: beginGesture(edge),
+    onPointerMove: updateGesture,
+    onPointerUp: endGesture,
+    onPointerCancel: endGesture,
+  });
+
+  const geometry = { ...window, ...live };
+  const isSized = window.isMaximized || geometry.width !== undefined;
+
   return (
     <motion.div
+      ref={ref}
       initial={{ scale: 0.95, opacity: 0 }}
       animate={{ scale: 1, opacity: 1 }}
       exit={{ scale: 0.95, opacity: 0 }}
       onMouseDown={onFocus}
-      style={{ zIndex: window.zIndex, left: window.x, top: window.y }}
+      style={window.isMaximized 
+        ? { zIndex: window.zIndex, left: 0, top: 0, width: '100%', height: `calc(100% - ${TASKBAR_HEIGHT}px)` }
+        : { zIndex: window.zIndex, left: geometry.x, top: geometry.y, width: geometry.width, height: geometry.height }
+      }
       className={cn(
         "absolute min-w-[300px] min-h-[200px] flex flex-col border-t-2 border-l-2 border-white border-b-2 border-r-2 border-black bg-[#C0C0C0] shadow-2xl",
         isActive && "ring-1 ring-black/20"
       )}
     >
       {/* Title Bar */}
-      <div className={cn(
-        "h-6 flex items-center justify-between px-1 cursor-default select-none",
-        isActive ? "bg-[#000080] text-white" : "bg-[#808080] text-[#C0C0C0]"
-      )}>
+      <div 
+        {...gestureHandlers('move')}
+        onDoubleClick={(e) => !(e.target as HTMLElement).closest('button') && onToggleMaximize()}
+        className={cn(
+          "h-6 flex-shrink-0 flex items-center justify-between px-1 cursor-default select-none touch-none",
+          isActive ? "bg-[#000080] text-white" : "bg-[#808080] text-[#C0C0C0]"
+        )}
+      >
         <div className="flex items-center gap-1 font-bold text-xs truncate">
           <div className="w-4 h-4">{window.icon}</div>
           <span className="truncate">{window.title}</span>
         </div>
         <div className="flex gap-0.5">
           <WindowButton onClick={onMinimize}><Minus size={10} /></WindowButton>
-          <WindowButton><Square size={8} /></WindowButton>
+          <WindowButton onClick={onToggleMaximize}>{window.isMaximized ? <Copy size={8} /> : <Square size={8} />}</WindowButton>
           <WindowButton onClick={onClose}><X size={10} /></WindowButton>
         </div>
       </div>
 
-      {/* Content */}
+      {/* Content; once the window has a size of its own, the app fills it instead of its default size */}
       <div className={cn(
-        "flex-grow overflow-hidden border-2 border-inset border-gray-400 m-0.5 bg-white",
+        "flex-grow min-h-0 overflow-hidden border-2 border-inset border-gray-400 m-0.5 bg-white",
+        isSized && "*:w-full! *:h-full!",
         theme === 'dark' && "bg-[#1a1a1a] text-white"
       )}>
         {children}
       </div>
+
+      {!window.isMaximized && RESIZE_HANDLES.map(({ edge, className }) => (
+        <div key={edge} {...gestureHandlers(edge)} className={cn("absolute touch-none", className)} />
+      ))}
     </motion.div>
   );
 };
 
+// Modal in the style of the Windows 95 "Enter Network Password" prompt
+const PasswordDialog = ({ mode, userPk, onSubmit, onCancel }: {
+  mode: 'unlock' | 'protect',
+  userPk: string | null,
+  onSubmit: (password: string) => Promise<void>,
+  onCancel: () => void
+}) => {
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'protect' && password !== confirm) {
+      alert("The passwords do not match.");
+      return;
+    }
+    setIsBusy(true);
+    // Let the busy state paint before scrypt blocks the thread
+    await new Promise(resolve => setTimeout(resolve, 0));
+    try {
+      await onSubmit(password);
+    } catch (e: any) {
+      alert(e.message);
+      setPassword('');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-[200] flex items-center justify-center bg-black/30">
+      <form 
+        onSubmit={submit}
+        className="w-[360px] flex flex-col border-t-2 border-l-2 border-white border-b-2 border-r-2 border-black bg-[#C0C0C0] shadow-2xl text-black"
+      >
+        <div className="h-6 flex items-center justify-between px-1 bg-[#000080] text-white select-none">
+          <span className="font-bold text-xs">{mode === 'unlock' ? "Enter Network Password" : "Protect Your Key"}</span>
+          <WindowButton onClick={onCancel}><X size={10} /></WindowButton>
+        </div>
+        <div className="flex gap-3 p-3">
+          <Lock size={32} className="flex-shrink-0 text-yellow-700" />
+          <div className="flex flex-col gap-2 flex-grow text-xs">
+            <p>
+              {mode === 'unlock' 
+                ? "Enter your password to unlock your Nostr key." 
+                : "Your key is stored unencrypted. Choose a password to encrypt it (NIP-49), or cancel to remove it and log out."}
+            </p>
+            {userPk && (
+              <label className="flex items-center gap-2">
+                <span className="w-20">User name:</span>
+                <input readOnly value={nip19.npubEncode(userPk).substring(0, 20) + '...'} className="flex-grow p-1 border border-inset border-gray-400 bg-gray-100 font-mono text-[10px]" />
+              </label>
+            )}
+            <label className="flex items-center gap-2">
+              <span className="w-20">Password:</span>
+              <input 
+                type="password" 
+                autoFocus
+                value={password} 
+                onChange={(e) => setPassword(e.target.value)} 
+                className="flex-grow p-1 border border-inset border-gray-400 bg-white"
+              />
+            </label>
+            {mode === 'protect' && (
+              <label className="flex items-center gap-2">
+                <span className="w-20">Confirm:</span>
+                <input 
+                  type="password" 
+                  value={confirm} 
+                  onChange={(e) => setConfirm(e.target.value)} 
+                  className="flex-grow p-1 border border-inset border-gray-400 bg-white"
+                />
+              </label>
+            )}
+          </div>
+          <div className="flex flex-col gap-1">
+            <button 
+              type="submit"
+              disabled={!password || isBusy}
+              className="w-16 px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold disabled:opacity-50"
+            >
+              {isBusy ? "..." : "OK"}
+            </button>
+            <button 
+              type="button"
+              onClick={onCancel}
+              className="w-16 px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
 const WindowButton = ({ children, onClick }: { children: React.ReactNode, onClick?: () => void }) => (
   <button 
     onClick={onClick}
@@ -408,332 +1260,3457 @@ const StartMenuItem = ({ icon, label, onClick }: { icon: React.ReactNode, label:
 
 // --- Nostalgia App ---
 
-const NostalgiaApp = ({ pool, relays, userPk, userSk, theme }: { 
-  pool: SimplePool, 
-  relays: string[], 
-  userPk: string | null, 
-  userSk: string | null,
-  theme: 'light' | 'dark'
-}) => {
-  const [activeTab, setActiveTab] = useState<'feed' | 'profile'>('feed');
-  const [postContent, setPostContent] = useState('');
-  const [attachments, setAttachments] = useState<string[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  const queryClient = useQueryClient();
+// Parsed kind 0 content per author; the newest event wins when relays disagree
+const parseMetadataEvents = (events: NostrEvent[]) => {
+  const map: Record<string, any> = {};
+  [...events].sort((a, b) => a.created_at - b.created_at).forEach(e => {
+    try {
+      map[e.pubkey] = JSON.parse(e.content);
+    } catch (err) {}
+  });
+  return map;
+};
 
-  const { data: notes = [], isLoading } = useQuery({
-    queryKey: ['nostr_notes', relays],
+const useMetadata = (pool: SimplePool, relays: string[], pubkeys: string[]) => useQuery({
+  queryKey: ['nostr_metadata', pubkeys, relays],
+  queryFn: async () => {
+    if (pubkeys.length === 0) return {};
+    const [cached, fresh] = await Promise.all([
+      eventStore.query({ kinds: [0], authors: pubkeys }),
+      // Profiles live on each author's write relays (NIP-65), not necessarily on ours
+      queryOutbox(pool, relays, { kinds: [0], authors: pubkeys }),
+    ]);
+    eventStore.add(fresh);
+    return parseMetadataEvents([...cached, ...fresh]);
+  },
+  enabled: pubkeys.length > 0,
+  staleTime: 600000, // 10 minutes
+});
+
+// The key each user's wallet signs zap receipts with, resolved from their lightning address
+const useZappers = (pool: SimplePool, relays: string[], pubkeys: string[]) => {
+  const { data: metadata = {}, isFetched } = useMetadata(pool, relays, pubkeys);
+  const results = useQueries({
+    queries: pubkeys.map(pk => ({
+      queryKey: ['nostr_zapper', pk, metadata[pk]?.lud16 ?? null, metadata[pk]?.lud06 ?? null],
+      queryFn: () => fetchZapperPubkey(metadata[pk] ?? {}),
+      enabled: isFetched,
+      staleTime: 3600000,
+      retry: false,
+    })),
+  });
+  const zappers: Record<string, string | null> = {};
+  pubkeys.forEach((pk, i) => { zappers[pk] = results[i]?.data ?? null; });
+  return { zappers, isResolved: isFetched && results.every(r => r.isFetched) };
+};
+
+// Total sats zapped per note, from kind 9735 receipts signed by the author's wallet
+const useZapTotals = (pool: SimplePool, relays: string[], notes: NostrEvent[]) => {
+  const authors: Record<string, string> = {};
+  notes.forEach(note => {
+    const author = isRepost(note) ? nip18.getRepostedEventPointer(note)?.author : note.pubkey;
+    if (author) authors[getStatsTargetId(note)] = author;
+  });
+  const ids = Object.keys(authors);
+  const { zappers, isResolved } = useZappers(pool, relays, Array.from(new Set(Object.values(authors))));
+  return useQuery({
+    queryKey: ['nostr_zaps', ids, relays, zappers],
     queryFn: async () => {
-      const events = await pool.querySync(relays, { kinds: [1], limit: 50 });
-      return events.sort((a, b) => b.created_at - a.created_at);
+      const receipts = await pool.querySync(relays, { kinds: [9735], '#e': ids });
+      return sumZapReceipts(receipts, Object.fromEntries(ids.map(id => [id, zappers[authors[id]]])));
     },
-    refetchInterval: 10000,
+    enabled: ids.length > 0 && isResolved,
+    staleTime: 60000,
   });
+};
 
-  // Fetch metadata for all authors in the current feed
-  const authorPubkeys = Array.from(new Set(notes.map(n => n.pubkey)));
-  const { data: metadata = {} } = useQuery({
-    queryKey: ['nostr_metadata', authorPubkeys, relays],
+// Zap totals plus repost, quote and reaction counts for every note in a list
+const useNoteStats = (pool: SimplePool, relays: string[], notes: NostrEvent[], userPk: string | null) => {
+  const ids = Array.from(new Set(notes.map(getStatsTargetId)));
+  const { data: zapTotals = {} } = useZapTotals(pool, relays, notes);
+  // Raw events, so a reaction we just sent can be added before relays return it
+  const { data: events = [] } = useQuery({
+    queryKey: ['nostr_engagement', ids, relays],
     queryFn: async () => {
-      if (authorPubkeys.length === 0) return {};
-      const events = await pool.querySync(relays, { kinds: [0], authors: authorPubkeys });
-      const map: Record<string, any> = {};
-      events.forEach(e => {
-        try {
-          map[e.pubkey] = JSON.parse(e.content);
-        } catch (err) {}
-      });
-      return map;
+      const [reactions, quotes] = await Promise.all([
+        pool.querySync(relays, { kinds: [6, 7, 16], '#e': ids }),
+        pool.querySync(relays, { kinds: [1], '#q': ids }),
+      ]);
+      return [...reactions, ...quotes];
     },
-    enabled: authorPubkeys.length > 0,
-    staleTime: 600000, // 10 minutes
+    enabled: ids.length > 0,
+    staleTime: 60000,
   });
+  const engagement = useMemo(() => countEngagement(events, userPk), [events, userPk]);
 
-  const uploadToBlossom = async (file: File) => {
-    if (!userPk) return;
-    setIsUploading(true);
-    try {
-      const server = BLOSSOM_SERVERS[0];
-      const sha256 = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
-      const hash = bytesToHex(new Uint8Array(sha256));
-      
-      const eventTemplate = {
-        kind: 24242,
-        created_at: Math.floor(Date.now() / 1000),
-        tags: [
-          ['t', 'upload'],
-          ['x', hash]
-        ],
-        content: `Upload ${file.name}`,
-      };
+  const stats: Record<string, NoteStats> = {};
+  ids.forEach(id => {
+    stats[id] = { zaps: zapTotals[id] ?? 0, reposts: engagement[id]?.reposts ?? 0, reactions: engagement[id]?.reactions ?? {} };
+  });
+  return stats;
+};
 
-      let signedEvent;
-      if (userSk) {
-        signedEvent = finalizeEvent(eventTemplate, hexToBytes(userSk));
-      } else if ((window as any).nostr) {
-        signedEvent = await (window as any).nostr.signEvent(eventTemplate);
-      } else {
-        throw new Error("Login to upload media");
-      }
+const useRelayStats = () => useSyncExternalStore(subscribeRelayStats, getRelayStats);
 
-      const authHeader = btoa(JSON.stringify(signedEvent));
-      const response = await fetch(`${server}/upload`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Nostr ${authHeader}`,
-        },
-        body: file
-      });
+const usePublishQueue = () => useSyncExternalStore(subscribePublishQueue, getPublishQueue);
 
-      if (!response.ok) throw new Error("Upload failed");
-      const data = await response.json();
-      setAttachments(prev => [...prev, data.url]);
-    } catch (err: any) {
-      alert(err.message);
-    } finally {
-      setIsUploading(false);
-    }
+// The list is fetched once per signer so private entries appear as soon as the key is unlocked
+const useMuteList = (pool: SimplePool, relays: string[], userPk: string | null, signer: Signer | null) => {
+  const queryClient = useQueryClient();
+  const queryKey = ['nostr_mutes', userPk, relays, !!signer];
+  const queryFn = async () => {
+    const events = await queryOutboxStrict(pool, relays, { kinds: [10000], authors: [userPk!] });
+    return parseMuteList(latestEvent(events), signer);
   };
+  const { data: list } = useQuery({ queryKey, queryFn, enabled: !!userPk, staleTime: 600000 });
 
-  const publishMutation = useMutation({
-    mutationFn: async (content: string) => {
-      if (!userPk) throw new Error("Not logged in");
-      
-      let finalContent = content;
-      if (attachments.length > 0) {
-        finalContent += "\n\n" + attachments.join("\n");
-      }
+  const mutation = useMutation({
+    mutationFn: async ({ kind, value, remove, isPrivate }: { kind: MuteKind, value: string, remove?: boolean, isPrivate?: boolean }) => {
+      if (!userPk || !signer) throw new Error("Login to manage your mute list");
+      // Never republish from an unloaded list, or every other entry would be wiped; the fetch throws when no relay answered
+      const current = await queryClient.fetchQuery<MuteList>({ queryKey, queryFn, staleTime: 600000 });
+      const next = updateMuteList(current, kind, value, { remove, isPrivate });
+      const event = await signEventTemplate(await buildMuteListTemplate(next, signer), signer);
+      await publishOutbox(pool, relays, event);
+      return { ...next, event };
+    },
+    onSuccess: (next) => queryClient.setQueryData(queryKey, next),
+    onError: (e) => alert(e.message)
+  });
+
+  const mutes = useMemo(() => list ? mergeMuteEntries(list) : emptyMuteEntries(), [list]);
+  return { list, mutes, mute: mutation.mutate, isSaving: mutation.isPending };
+};
+
+const useBookmarks = (pool: SimplePool, relays: string[], userPk: string | null, signer: Signer | null) => {
+  const queryClient = useQueryClient();
+  const queryKey = ['nostr_bookmarks', userPk, relays];
+  // Strict, so a timeout is an error rather than "no bookmarks" that a toggle would then overwrite
+  const queryFn = async () => latestEvent(await queryOutboxStrict(pool, relays, { kinds: [10003], authors: [userPk!] }));
+  const { data: event = null, isSuccess } = useQuery({ queryKey, queryFn, enabled: !!userPk, staleTime: 600000 });
+
+  const mutation = useMutation({
+    mutationFn: async (note: NostrEvent) => {
+      if (!userPk) throw new Error("Login to bookmark notes");
+      const current = await queryClient.fetchQuery({ queryKey, queryFn, staleTime: 600000 });
+      const add = !parseBookmarks(current).includes(note.id);
+      const next = await signEventTemplate(buildBookmarksTemplate(current, note, add), signer);
+      await publishOutbox(pool, relays, next);
+      return next;
+    },
+    onSuccess: (next) => queryClient.setQueryData(queryKey, next),
+    onError: (e) => alert(e.message)
+  });
+
+  const ids = useMemo(() => parseBookmarks(event), [event]);
+  return { ids, toggle: mutation.mutate, isLoaded: isSuccess, isSaving: mutation.isPending };
+};
+
+const useFollowSets = (pool: SimplePool, relays: string[], userPk: string | null, signer: Signer | null) => {
+  const queryClient = useQueryClient();
+  const queryKey = ['nostr_follow_sets', userPk, relays];
+  const { data: sets = [] } = useQuery({
+    queryKey,
+    queryFn: async () => parseFollowSets(await queryOutbox(pool, relays, { kinds: [30000], authors: [userPk!] })),
+    enabled: !!userPk,
+    staleTime: 600000,
+  });
+
+  const save = useMutation({
+    mutationFn: async (set: FollowSet) => {
+      const event = await signEventTemplate(buildFollowSetTemplate(set), signer);
+      await publishOutbox(pool, relays, event);
+      return { ...set, event };
+    },
+    onSuccess: (saved) => queryClient.setQueryData<FollowSet[]>(queryKey, (old = []) => 
+      [...old.filter(s => s.id !== saved.id), saved].sort((a, b) => a.title.localeCompare(b.title))
+    ),
+    onError: (e) => alert(e.message)
+  });
+
+  const remove = useMutation({
+    mutationFn: async (set: FollowSet) => {
+      const event = await signEventTemplate(buildFollowSetDeletion(set, userPk!), signer);
+      await publishOutbox(pool, relays, event);
+      return set;
+    },
+    onSuccess: (removed) => queryClient.setQueryData<FollowSet[]>(queryKey, (old = []) => old.filter(s => s.id !== removed.id)),
+    onError: (e) => alert(e.message)
+  });
+
+  return { sets, save: save.mutate, remove: remove.mutate, isSaving: save.isPending || remove.isPending };
+};
+
+/** Someone's kind 10063 Blossom servers; empty when they have not published a list */
+const useBlossomServers = (pool: SimplePool, relays: string[], pubkey: string | null, signer: Signer | null = null) => {
+  const queryClient = useQueryClient();
+  const queryKey = ['nostr_blossom_servers', pubkey, relays];
+  const { data: servers = [], isFetched, isSuccess } = useQuery({
+    queryKey,
+    queryFn: async () => parseServerList(latestEvent(await queryOutboxStrict(pool, relays, { kinds: [SERVER_LIST_KIND], authors: [pubkey!] }))),
+    enabled: !!pubkey,
+    staleTime: 600000,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (next: string[]) => {
+      const event = await signEventTemplate(buildServerListTemplate(next), signer);
+      await publishOutbox(pool, relays, event);
+      return next;
+    },
+    onSuccess: (next) => queryClient.setQueryData(queryKey, next),
+    onError: (e) => alert(e.message)
+  });
+
+  return { servers, isFetched, isLoaded: isSuccess, save: mutation.mutate, isSaving: mutation.isPending };
+};
+
+const isMutedNotification = (notification: NostrNotification, mutes: MuteEntries) =>
+  mutes.pubkeys.includes(notification.actor) || isMuted(notification.event, mutes);
+
+// Background tabs get a desktop alert; the actor's name comes from the cache so nothing is fetched for it
+const alertNotification = async (notification: NostrNotification) => {
+  if (!document.hidden || !('Notification' in window) || Notification.permission !== 'granted') return;
+  const [profile] = await eventStore.query({ kinds: [0], authors: [notification.actor], limit: 1 });
+  const name = parseMetadataEvents(profile ? [profile] : [])[notification.actor]?.name || notification.actor.substring(0, 8);
+  new Notification(`${name} ${describeNotification(notification)}`, {
+    body: notification.type === 'reaction' || notification.type === 'zap' ? undefined : notification.event.content.substring(0, 140),
+    tag: notification.id,
+  });
+};
+
+const useNotifications = (pool: SimplePool, relays: string[], userPk: string | null, browserAlerts: boolean, mutes: MuteEntries) => {
+  const queryClient = useQueryClient();
+  const queryKey = ['nostr_notifications', userPk, relays];
+
+  const { data: inbox } = useQuery({
+    queryKey: ['nostr_inbox_relays', userPk, relays],
+    queryFn: () => getInboxRelays(pool, relays, userPk!),
+    enabled: !!userPk,
+    staleTime: 600000,
+  });
+
+  const { data: events = [] } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const filter = notificationFilter(userPk!);
+      const [cached, fresh] = await Promise.all([eventStore.query(filter), pool.querySync(inbox!, filter)]);
+      eventStore.add(fresh);
+      return mergeTimeline([...cached, ...fresh]);
+    },
+    enabled: !!userPk && !!inbox,
+  });
+
+  // Zap receipts only count when our own wallet signed them
+  const { zappers } = useZappers(pool, relays, userPk ? [userPk] : []);
+  const zapper = userPk ? zappers[userPk] : null;
+  const zapperRef = useRef(zapper);
+  zapperRef.current = zapper;
+
+  const alertsRef = useRef(browserAlerts);
+  alertsRef.current = browserAlerts;
+  const mutesRef = useRef(mutes);
+  mutesRef.current = mutes;
+
+  useEffect(() => {
+    if (!userPk || !inbox) return;
+    const sub = pool.subscribeMany(inbox, { ...notificationFilter(userPk), since: Math.floor(Date.now() / 1000) }, {
+      onevent: (event) => {
+        eventStore.add([event]);
+        queryClient.setQueryData<NostrEvent[]>(queryKey, (old = []) => old.some(e => e.id === event.id) ? old : [event, ...old]);
+        const notification = classifyNotification(event, userPk, zapperRef.current);
+        if (notification && alertsRef.current && !isMutedNotification(notification, mutesRef.current)) alertNotification(notification);
+      },
+    });
+    return () => sub.close();
+  }, [pool, userPk, inbox]);
+
+  return useMemo(() => events.map(e => classifyNotification(e, userPk!, zapper)).filter((n): n is NostrNotification => !!n), [events, userPk, zapper]);
+};
+
+const TIMELINE_PAGE_SIZE = 50;
+
+// Newest first, one copy per id
+const mergeTimeline = (events: NostrEvent[]) => {
+  const unique: Record<string, NostrEvent> = {};
+  events.forEach(e => { unique[e.id] = e; });
+  return Object.values(unique).sort((a, b) => b.created_at - a.created_at);
+};
+
+// Older pages load through `until` cursors; live events are held back until the user asks to see them
+const useTimeline = (pool: SimplePool, { queryKey, relays, filter, fetchPage, enabled = true }: {
+  queryKey: unknown[],
+  relays: string[],
+  filter: Filter,
+  fetchPage: (filter: Filter) => Promise<NostrEvent[]>,
+  enabled?: boolean
+}) => {
+  const queryClient = useQueryClient();
+  const [pending, setPending] = useState<NostrEvent[]>([]);
+
+  // Whatever the local store already has renders while relays are still answering
+  const { data: cachedHead = [] } = useQuery({
+    queryKey: ['nostr_cache', ...queryKey],
+    queryFn: () => eventStore.query({ ...filter, limit: TIMELINE_PAGE_SIZE }),
+    enabled,
+    staleTime: Infinity,
+  });
+
+  const query = useInfiniteQuery({
+    queryKey,
+    queryFn: async ({ pageParam }) => {
+      const pageFilter = { ...filter, limit: TIMELINE_PAGE_SIZE, until: pageParam };
+      const cached = await eventStore.query(pageFilter);
+      // For the head, relays only need to send what is newer than the cache
+      const since = pageParam === undefined ? cached[0]?.created_at : undefined;
+      const fresh = await fetchPage(since ? { ...pageFilter, since } : pageFilter);
+      eventStore.add(fresh);
+      // Every relay answered with its own newest notes, so only the overall newest page is gap-free
+      return mergeTimeline([...fresh, ...cached]).slice(0, TIMELINE_PAGE_SIZE);
+    },
+    initialPageParam: undefined as number | undefined,
+    getNextPageParam: (lastPage, _pages, lastPageParam) => {
+      if (lastPage.length === 0) return undefined;
+      const oldest = lastPage[lastPage.length - 1].created_at;
+      // `until` is inclusive; step past a second that filled a whole page so we never ask for it again
+      return oldest === lastPageParam ? oldest - 1 : oldest;
+    },
+    enabled,
+    staleTime: Infinity, // The live subscription keeps the head fresh
+  });
+
+  const filterKey = JSON.stringify(filter);
+  useEffect(() => {
+    setPending([]);
+    if (!enabled || relays.length === 0) return;
+    const sub = pool.subscribeMany(relays, { ...filter, since: Math.floor(Date.now() / 1000) }, {
+      onevent: (event) => {
+        eventStore.add([event]);
+        setPending(prev => prev.some(e => e.id === event.id) ? prev : [event, ...prev]);
+      },
+    });
+    return () => sub.close();
+  }, [pool, enabled, relays, filterKey]);
+
+  const notes = query.data ? mergeTimeline(query.data.pages.flat()) : cachedHead;
+  const loaded = new Set(notes.map(n => n.id));
+  const newNotes = pending.filter(e => !loaded.has(e.id));
+
+  const prepend = (events: NostrEvent[]) => {
+    queryClient.setQueryData<InfiniteData<NostrEvent[], number | undefined>>(queryKey, (old) => old && {
+      ...old,
+      pages: [mergeTimeline([...events, ...old.pages[0]]), ...old.pages.slice(1)],
+    });
+  };
+
+  const showNewNotes = () => {
+    prepend(newNotes);
+    setPending([]);
+  };
+
+  // Our own posts skip the banner
+  const prependNote = (event: NostrEvent) => prepend([event]);
+
+  return { ...query, notes, newNotes, showNewNotes, prependNote };
+};
+
+// Every callback a rendered note can trigger; views pass the same object down unchanged
+interface NoteActions {
+  reply: (note: NostrEvent) => void;
+  quote: (note: NostrEvent) => void;
+  repost: (note: NostrEvent) => void;
+  react: (note: NostrEvent, content: string, emojiUrl?: string) => void;
+  zap: (note: NostrEvent, profile: any) => void;
+  openThread: (note: NostrEvent) => void;
+  openProfile: (pubkey: string) => void;
+  openHashtag: (tag: string) => void;
+  /** Opens a long-form article by its naddr */
+  openArticle?: (naddr: string) => void;
+  mute?: (kind: MuteKind, value: string, isPrivate?: boolean) => void;
+  toggleBookmark?: (note: NostrEvent) => void;
+  isBookmarked?: (note: NostrEvent) => boolean;
+  isMuted?: (note: NostrEvent) => boolean;
+  /** Notes the spam heuristics want collapsed rather than hidden */
+  isFlagged?: (note: NostrEvent) => boolean;
+  isFollowing?: (pubkey: string) => boolean | undefined;
+  toggleFollow?: (pubkey: string) => void;
+  /** False until the contact list has loaded, so a follow cannot be built on an empty list */
+  canFollow?: boolean;
+}
+
+const NostalgiaApp = ({ pool, relays, userPk, signer, theme, spamSettings, route, onOpenNetwork }: { 
+  pool: SimplePool, 
+  relays: string[], 
+  userPk: string | null, 
+  signer: Signer | null,
+  spamSettings: SpamSettings,
+  route: NostalgiaRoute | null,
+  onOpenNetwork: () => void,
+  theme: 'light' | 'dark'
+}) => {
+  const [activeTab, setActiveTab] = usePersistentState<'feed' | 'following' | 'topic' | 'list' | 'articles' | 'profile'>(userPk, 'nostalgia.tab', 'feed');
+  const [openArticle, setOpenArticle] = useState<string | null>(null);
+  const [topic, setTopic] = usePersistentState<string | null>(userPk, 'nostalgia.topic', null);
+  const [activeListId, setActiveListId] = usePersistentState<string | null>(userPk, 'nostalgia.list', null);
+  const [postContent, setPostContent] = usePersistentState(userPk, 'nostalgia.post', '');
+  const [replyTo, setReplyTo] = usePersistentState<NostrEvent | null>(userPk, 'nostalgia.replyTo', null);
+  const [quoting, setQuoting] = usePersistentState<NostrEvent | null>(userPk, 'nostalgia.quoting', null);
+  const [openThread, setOpenThread] = useState<NostrEvent | null>(null);
+  const [profilePk, setProfilePk] = usePersistentState<string | null>(userPk, 'nostalgia.profile', null);
+  // Uploaded files with the NIP-92 tag that describes each one
+  const [attachments, setAttachments] = usePersistentState<{ url: string, imeta: string[] }[]>(userPk, 'nostalgia.attachments', []);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [publishReport, setPublishReport] = useState<PublishResult[] | null>(null);
+  // null while the note carries no NIP-36 warning; an empty string is a warning without a reason
+  const [contentWarning, setContentWarning] = usePersistentState<string | null>(userPk, 'nostalgia.contentWarning', null);
+  const [showPreview, setShowPreview] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { servers: blossomServers } = useBlossomServers(pool, relays, userPk);
+  const queryClient = useQueryClient();
+
+  const globalTimeline = useTimeline(pool, {
+    queryKey: ['nostr_notes', relays],
+    relays,
+    filter: { kinds: [1, 6] },
+    fetchPage: (filter) => pool.querySync(relays, filter),
+  });
+
+  // Latest kind 3 for the logged-in user; other tags and content are kept when we republish it
+  const contactsKey = ['nostr_contacts', userPk, relays];
+  const contactsFn = async () => latestEvent(await queryOutboxStrict(pool, relays, { kinds: [3], authors: [userPk!] }));
+  const { data: contactList = null, isSuccess: isContactListLoaded } = useQuery({
+    queryKey: contactsKey,
+    queryFn: contactsFn,
+    enabled: !!userPk,
+    staleTime: 60000,
+  });
+  const follows = contactList ? contactList.tags.filter(t => t[0] === 'p' && t[1]).map(t => t[1]) : [];
+
+  const followingTimeline = useTimeline(pool, {
+    queryKey: ['nostr_following_notes', follows, relays],
+    relays,
+    filter: { kinds: [1, 6], authors: follows },
+    // Each followed author is read from their own write relays (NIP-65)
+    fetchPage: (filter) => queryOutbox(pool, relays, { ...filter, authors: follows }),
+    enabled: activeTab === 'following' && follows.length > 0,
+  });
+
+  const topicTimeline = useTimeline(pool, {
+    queryKey: ['nostr_topic_notes', topic, relays],
+    relays,
+    filter: { kinds: [1, 6], '#t': [topic ?? ''] },
+    fetchPage: (filter) => pool.querySync(relays, filter),
+    enabled: activeTab === 'topic' && !!topic,
+  });
+
+  const { sets: followSets } = useFollowSets(pool, relays, userPk, signer);
+  const activeList = followSets.find(s => s.id === activeListId) ?? null;
+  const listPubkeys = activeList?.pubkeys ?? [];
+  const listTimeline = useTimeline(pool, {
+    queryKey: ['nostr_list_notes', activeListId, listPubkeys, relays],
+    relays,
+    filter: { kinds: [1, 6], authors: listPubkeys },
+    fetchPage: (filter) => queryOutbox(pool, relays, { ...filter, authors: listPubkeys }),
+    enabled: activeTab === 'list' && listPubkeys.length > 0,
+  });
+  const { ids: bookmarkIds, toggle: toggleBookmark, isLoaded: bookmarksLoaded } = useBookmarks(pool, relays, userPk, signer);
+
+  const showFollowing = activeTab === 'following' && !!userPk;
+  const showTopic = activeTab === 'topic' && !!topic;
+  const showList = activeTab === 'list' && !!activeList;
+  const timeline = showFollowing ? followingTimeline : showTopic ? topicTimeline : showList ? listTimeline : globalTimeline;
+  const { mutes, mute } = useMuteList(pool, relays, userPk, signer);
+  const feedLoading = showFollowing ? followingTimeline.isLoading && follows.length > 0 
+    : showList ? listTimeline.isLoading && listPubkeys.length > 0 
+    : timeline.isLoading;
+  const feedScrollRef = useRef<HTMLDivElement>(null);
+
+  // Fetch metadata for all authors in the current feed, including reposted ones
+  const authorPubkeys = Array.from(new Set(timeline.notes.flatMap(n => [n.pubkey, nip18.getRepostedEventPointer(n)?.author ?? n.pubkey])));
+  const { data: metadata = {}, isFetched: isMetadataFetched } = useMetadata(pool, relays, authorPubkeys);
+
+  const floods = useMemo(() => spamSettings.flagFloods ? findFloods(timeline.notes) : new Set<string>(), [spamSettings.flagFloods, timeline.notes]);
+  // Own notes are never filtered, whatever the lists say
+  const isHidden = (note: NostrEvent) => note.pubkey !== userPk && (
+    isMuted(note, mutes) || (spamSettings.hideNoProfile && isMetadataFetched && !metadata[note.pubkey])
+  );
+  const feedNotes = timeline.notes.filter(n => !isHidden(n));
+  const stats = useNoteStats(pool, relays, feedNotes, userPk);
+
+  const uploadFiles = async (files: File[]) => {
+    if (!userPk) return;
+    setUploadProgress(0);
+    try {
+      for (const [i, original] of files.entries()) {
+        const prepared = await prepareMedia(original);
+        if (!prepared) continue;
+        const { file, info } = prepared;
+        const report = await uploadMedia({
+          file,
+          servers: blossomServers,
+          sign: (t) => signEventTemplate(t, signer),
+          onProgress: (fraction) => setUploadProgress((i + fraction) / files.length),
+        });
+        const failed = report.results.filter(r => !r.ok);
+        if (failed.length > 0) console.warn(`${file.name} is missing from some servers`, failed);
+        const { url, sha256, size, type } = report.descriptor;
+        const imeta = buildImetaTag(url, {
+          mime: type || file.type,
+          sha256,
+          size,
+          width: info?.width,
+          height: info?.height,
+          blurhash: info?.blurhash,
+          fallback: report.urls.slice(1),
+        });
+        setAttachments(prev => [...prev, { url, imeta }]);
+      }
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const publishMutation = useMutation({
+    mutationFn: async (content: string) => {
+      if (!userPk) throw new Error("Not logged in");
+      
+      let finalContent = content;
+      if (attachments.length > 0) {
+        finalContent += "\n\n" + attachments.map(a => a.url).join("\n");
+      }
+      if (quoting) {
+        finalContent += "\n\n" + quoteReference(quoting);
+      }
+
+      const tags = withContentTags(finalContent, replyTo ? buildReplyTags(replyTo, userPk) : quoting ? buildQuoteTags(quoting) : []);
+      if (contentWarning !== null) tags.push(contentWarning ? ['content-warning', contentWarning] : ['content-warning']);
+      attachments.forEach(a => tags.push(a.imeta));
 
       const eventTemplate = {
         kind: 1,
         created_at: Math.floor(Date.now() / 1000),
-        tags: [],
+        tags,
         content: finalContent,
       };
       
-      let event;
-      if (userSk) {
-        event = finalizeEvent(eventTemplate, hexToBytes(userSk));
-      } else if ((window as any).nostr) {
-        event = await (window as any).nostr.signEvent(eventTemplate);
-      } else {
-        throw new Error("No signing method available");
+      const event = await signEventTemplate(eventTemplate, signer);
+
+      const results = await publishOutbox(pool, relays, event);
+      return { event, results };
+    },
+    onSuccess: ({ event: newEvent, results }) => {
+      globalTimeline.prependNote(newEvent);
+      setPublishReport(results);
+      setPostContent('');
+      setAttachments([]);
+      setContentWarning(null);
+      setShowPreview(false);
+      if (replyTo) {
+        setReplyTo(null);
+        queryClient.invalidateQueries({ queryKey: ['nostr_thread'] });
       }
+      if (quoting) {
+        setQuoting(null);
+        queryClient.invalidateQueries({ queryKey: ['nostr_engagement'] });
+      }
+    },
+    onError: (e) => alert(e.message)
+  });
 
-      await Promise.any(pool.publish(relays, event));
+  const repostMutation = useMutation({
+    mutationFn: async (note: NostrEvent) => {
+      if (!userPk) throw new Error("Login to repost notes");
+      const event = await signEventTemplate(buildRepostTemplate(note), signer);
+      await publishOutbox(pool, relays, event);
       return event;
     },
     onSuccess: (newEvent) => {
-      queryClient.setQueryData(['nostr_notes', relays], (old: NostrEvent[] = []) => [newEvent, ...old]);
-      setPostContent('');
-      setAttachments([]);
+      globalTimeline.prependNote(newEvent);
+      queryClient.invalidateQueries({ queryKey: ['nostr_engagement'] });
+    },
+    onError: (e) => alert(e.message)
+  });
+
+  const reactMutation = useMutation({
+    mutationFn: async ({ note, content, emojiUrl }: { note: NostrEvent, content: string, emojiUrl?: string }) => {
+      if (!userPk) throw new Error("Login to react to notes");
+      const event = await signEventTemplate(buildReactionTemplate(note, content, emojiUrl), signer);
+      await publishOutbox(pool, relays, event);
+      return event;
+    },
+    onSuccess: (event) => queryClient.setQueriesData<NostrEvent[]>({ queryKey: ['nostr_engagement'] }, (old) => old && [...old, event]),
+    onError: (e) => alert(e.message)
+  });
+
+  const followMutation = useMutation({
+    mutationFn: async ({ pubkey, follow }: { pubkey: string, follow: boolean }) => {
+      if (!userPk) throw new Error("Not logged in");
+
+      // A kind 3 built without the current list would unfollow everyone else
+      const current = await queryClient.fetchQuery({ queryKey: contactsKey, queryFn: contactsFn, staleTime: 60000 });
+      const tags = (current?.tags ?? []).filter(t => !(t[0] === 'p' && t[1] === pubkey));
+      if (follow) tags.push(['p', pubkey]);
+
+      const event = await signEventTemplate({
+        kind: 3,
+        created_at: Math.floor(Date.now() / 1000),
+        tags,
+        content: current?.content ?? '',
+      }, signer);
+
+      await publishOutbox(pool, relays, event);
+      return event;
+    },
+    onSuccess: (newEvent) => {
+      queryClient.setQueryData(contactsKey, newEvent);
     },
     onError: (e) => alert(e.message)
   });
 
+  const toggleFollow = (pubkey: string) => 
+    followMutation.mutate({ pubkey, follow: !follows.includes(pubkey) });
+
+  const zapNote = async (note: NostrEvent, profile: any) => {
+    if (!userPk) {
+      alert("Login to zap notes");
+      return;
+    }
+    const amount = prompt("Zap amount (sats)", "21");
+    if (!amount) return;
+    const amountSats = parseInt(amount, 10);
+    if (!(amountSats > 0)) {
+      alert("Invalid amount");
+      return;
+    }
+    try {
+      await zapEvent({ event: note, profile: profile ?? {}, amountSats, relays, sign: (t) => signEventTemplate(t, signer) });
+      alert(`Zapped ${amountSats} sats!`);
+      queryClient.invalidateQueries({ queryKey: ['nostr_zaps'] });
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const openProfile = (pubkey: string | null) => {
+    setProfilePk(pubkey);
+    setActiveTab('profile');
+    setOpenThread(null);
+    setOpenArticle(null);
+  };
+
+  // Hashtags are matched lowercase, the way clients write their `t` tags
+  const openHashtag = (tag: string) => {
+    setTopic(tag.toLowerCase());
+    setActiveTab('topic');
+    setOpenThread(null);
+    setOpenArticle(null);
+  };
+
+  const openList = (id: string) => {
+    setActiveListId(id);
+    setActiveTab('list');
+    setOpenThread(null);
+    setOpenArticle(null);
+  };
+
+  const showArticle = (naddr: string) => {
+    setOpenArticle(naddr);
+    setOpenThread(null);
+  };
+
+  useEffect(() => {
+    if (route?.type === 'profile') openProfile(route.pubkey);
+    else if (route?.type === 'hashtag') openHashtag(route.tag);
+    else if (route?.type === 'thread') setOpenThread(route.event);
+    else if (route?.type === 'list') openList(route.id);
+  }, [route]);
+
+  const noteActions: NoteActions = {
+    reply: (note) => { setQuoting(null); setReplyTo(note); },
+    quote: (note) => { setReplyTo(null); setQuoting(note); },
+    repost: (note) => repostMutation.mutate(note),
+    react: (note, content, emojiUrl) => {
+      if (!reactMutation.isPending) reactMutation.mutate({ note, content, emojiUrl });
+    },
+    zap: zapNote,
+    openThread: setOpenThread,
+    openProfile,
+    openHashtag,
+    openArticle: showArticle,
+    mute: (kind, value, isPrivate) => mute({ kind, value, isPrivate }),
+    toggleBookmark: bookmarksLoaded ? (note) => toggleBookmark(note) : undefined,
+    isBookmarked: (note) => bookmarkIds.includes(note.id),
+    isMuted: (note) => note.pubkey !== userPk && isMuted(note, mutes),
+    isFlagged: (note) => floods.has(note.id),
+    isFollowing: (pubkey) => userPk && pubkey !== userPk ? follows.includes(pubkey) : undefined,
+    toggleFollow,
+    canFollow: isContactListLoaded && !followMutation.isPending,
+  };
+
+  return (
+    <div className="relative flex flex-col h-full">
+      {publishReport && <PublishStatusDialog results={publishReport} onClose={() => setPublishReport(null)} />}
+
+      {/* Toolbar */}
+      <div className="flex items-center gap-1 p-1 bg-[#C0C0C0] border-b border-gray-400 text-black">
+        <ToolbarButton active={activeTab === 'feed'} onClick={() => setActiveTab('feed')}>
+          <Globe size={14} /> Global Feed
+        </ToolbarButton>
+        {userPk && (
+          <ToolbarButton active={activeTab === 'following'} onClick={() => setActiveTab('following')}>
+            <Users size={14} /> Following
+          </ToolbarButton>
+        )}
+        {topic && (
+          <ToolbarButton active={activeTab === 'topic'} onClick={() => openHashtag(topic)}>
+            <Hash size={14} /> {topic}
+          </ToolbarButton>
+        )}
+        {followSets.map(set => (
+          <ToolbarButton key={set.id} active={activeTab === 'list' && activeListId === set.id} onClick={() => openList(set.id)}>
+            <List size={14} /> {set.title}
+          </ToolbarButton>
+        ))}
+        {userPk && (
+          <ToolbarButton active={activeTab === 'articles'} onClick={() => { setActiveTab('articles'); setOpenThread(null); setOpenArticle(null); }}>
+            <BookOpen size={14} /> Articles
+          </ToolbarButton>
+        )}
+        <ToolbarButton active={activeTab === 'profile'} onClick={() => openProfile(userPk)}>
+          <User size={14} /> Profile
+        </ToolbarButton>
+        <RelayIndicator relays={relays} onClick={onOpenNetwork} />
+      </div>
+
+      <div className="flex flex-grow overflow-hidden">
+        {/* Sidebar */}
+        <div className="w-48 bg-[#C0C0C0] border-r border-gray-400 p-2 flex flex-col gap-4 text-black overflow-y-auto">
+          <div className="flex flex-col gap-1">
+            <label className="text-[10px] font-bold uppercase text-gray-600">{replyTo ? "Reply" : quoting ? "Quote Note" : "Post Note"}</label>
+            {replyTo && (
+              <div className="flex items-center justify-between gap-1 p-1 text-[10px] border border-inset border-gray-400 bg-gray-200">
+                <span className="truncate">Replying to {metadata[replyTo.pubkey]?.name || replyTo.pubkey.substring(0, 8)}</span>
+                <button onClick={() => setReplyTo(null)} className="flex-shrink-0">
+                  <X size={10} />
+                </button>
+              </div>
+            )}
+            {quoting && (
+              <div className="flex items-center justify-between gap-1 p-1 text-[10px] border border-inset border-gray-400 bg-gray-200">
+                <span className="truncate">Quoting {metadata[quoting.pubkey]?.name || quoting.pubkey.substring(0, 8)}: {quoting.content}</span>
+                <button onClick={() => setQuoting(null)} className="flex-shrink-0">
+                  <X size={10} />
+                </button>
+              </div>
+            )}
+            <MentionTextarea 
+              value={postContent}
+              onChange={setPostContent}
+              placeholder="What's happening? Type @ to mention someone"
+            />
+
+            <div className="flex flex-col gap-1 text-[10px]">
+              <label className="flex items-center gap-1">
+                <input 
+                  type="checkbox" 
+                  checked={contentWarning !== null} 
+                  onChange={(e) => setContentWarning(e.target.checked ? '' : null)} 
+                />
+                Content warning
+              </label>
+              {contentWarning !== null && (
+                <input 
+                  value={contentWarning}
+                  onChange={(e) => setContentWarning(e.target.value)}
+                  placeholder="Reason (optional)"
+                  className="p-1 border border-inset border-gray-400 bg-white outline-none"
+                />
+              )}
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={showPreview} onChange={(e) => setShowPreview(e.target.checked)} />
+                Preview
+              </label>
+            </div>
+
+            {showPreview && (
+              <div className="max-h-64 overflow-y-auto p-1 border border-inset border-gray-400 bg-white">
+                {postContent.trim() ? (
+                  <NoteContent 
+                    pool={pool} 
+                    relays={relays} 
+                    note={{ id: '', pubkey: userPk ?? '', sig: '', kind: 1, created_at: 0, tags: [], content: postContent }} 
+                  />
+                ) : (
+                  <span className="text-[10px] text-gray-400 italic">Nothing to preview yet.</span>
+                )}
+              </div>
+            )}
+            
+            {/* Attachments Preview */}
+            {attachments.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {attachments.map(({ url }, idx) => (
+                  <div key={idx} className="relative group">
+                    <img src={url} className="w-10 h-10 object-cover border border-gray-400" />
+                    <button 
+                      onClick={() => setAttachments(prev => prev.filter((_, i) => i !== idx))}
+                      className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <X size={8} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-1 mt-1">
+              <button 
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploadProgress !== null}
+                className="flex-grow px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-[10px] font-bold active:border-t-2 active:border-l-2 active:border-black active:border-b active:border-r active:border-white disabled:opacity-50"
+              >
+                {uploadProgress !== null ? `Uploading ${Math.round(uploadProgress * 100)}%` : "Attach Media"}
+              </button>
+              <input 
+                type="file" 
+                ref={fileInputRef} 
+                className="hidden" 
+                accept="image/*,video/*"
+                multiple
+                onChange={(e) => {
+                  const files = Array.from(e.target.files ?? []);
+                  e.target.value = '';
+                  if (files.length > 0) uploadFiles(files);
+                }}
+              />
+            </div>
+
+            <button 
+              disabled={!userPk || publishMutation.isPending || (!postContent.trim() && attachments.length === 0 && !quoting)}
+              onClick={() => publishMutation.mutate(postContent)}
+              className="mt-1 px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold active:border-t-2 active:border-l-2 active:border-black active:border-b active:border-r active:border-white disabled:opacity-50"
+            >
+              {publishMutation.isPending ? "Sending..." : (replyTo ? "Send Reply" : "Post Note")}
+            </button>
+            {!userPk && <p className="text-[9px] text-red-600 mt-1">Login to post notes</p>}
+          </div>
+
+          <PublishQueueIndicator pool={pool} />
+
+          <div className="mt-auto p-2 border border-inset border-gray-400 bg-gray-200 text-[10px]">
+            <p className="font-bold">Nostalgia v1.0</p>
+            <p className="text-gray-600">The Cypherpunk OS</p>
+          </div>
+        </div>
+
+        {/* Feed */}
+        <div ref={feedScrollRef} className="flex-grow overflow-y-auto p-2 bg-white dark:bg-[#1a1a1a]">
+          {openThread ? (
+            <ThreadView
+              pool={pool}
+              relays={relays}
+              userPk={userPk}
+              focus={openThread}
+              theme={theme}
+              onBack={() => setOpenThread(null)}
+              actions={noteActions}
+            />
+          ) : openArticle ? (
+            <ArticleView
+              pool={pool}
+              relays={relays}
+              naddr={openArticle}
+              onBack={() => setOpenArticle(null)}
+              actions={noteActions}
+            />
+          ) : activeTab === 'articles' ? (
+            follows.length === 0 ? (
+              <div className="flex items-center justify-center h-full text-gray-400 italic">
+                Follow some writers to see their articles here.
+              </div>
+            ) : (
+              <ArticleList pool={pool} relays={relays} authors={follows} onOpen={showArticle} />
+            )
+          ) : activeTab === 'profile' ? (
+            profilePk ? (
+              <ProfileView
+                pool={pool}
+                relays={relays}
+                pubkey={profilePk}
+                userPk={userPk}
+                signer={signer}
+                theme={theme}
+                actions={noteActions}
+              />
+            ) : (
+              <div className="flex items-center justify-center h-full text-gray-400 italic">
+                Login to view your profile.
+              </div>
+            )
+          ) : feedLoading ? (
+            <div className="flex items-center justify-center h-full text-gray-400 italic">
+              Connecting to relays...
+            </div>
+          ) : showFollowing && follows.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-gray-400 italic">
+              You aren't following anyone yet.
+            </div>
+          ) : showList && listPubkeys.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-gray-400 italic">
+              This list is empty. Add people to it in Lists & Bookmarks.
+            </div>
+          ) : (
+            <>
+              {timeline.newNotes.length > 0 && (
+                <button 
+                  onClick={() => {
+                    timeline.showNewNotes();
+                    feedScrollRef.current?.scrollTo({ top: 0 });
+                  }}
+                  className="sticky top-0 z-10 w-full mb-2 px-2 py-1 bg-[#C0C0C0] text-black border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold"
+                >
+                  ▲ {timeline.newNotes.length} new {timeline.newNotes.length === 1 ? "note" : "notes"}
+                </button>
+              )}
+              <VirtualFeed
+                notes={feedNotes}
+                scrollRef={feedScrollRef}
+                onEndReached={() => timeline.hasNextPage && !timeline.isFetchingNextPage && timeline.fetchNextPage()}
+                renderNote={(note) => (
+                  <FeedItem 
+                    pool={pool}
+                    relays={relays}
+                    note={note} 
+                    theme={theme} 
+                    metadata={metadata} 
+                    stats={stats}
+                    actions={noteActions}
+                  />
+                )}
+              />
+              {timeline.isFetchingNextPage && (
+                <div className="p-2 text-center text-[10px] text-gray-400 italic">Loading older notes...</div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const MAX_MENTION_SUGGESTIONS = 6;
+
+// Every profile we have seen is in the event store, so mentions autocomplete without a relay round trip
+const useCachedProfiles = () => useQuery({
+  queryKey: ['nostr_cached_profiles'],
+  queryFn: async () => parseMetadataEvents(await eventStore.query({ kinds: [0] })),
+  staleTime: 60000,
+});
+
+const MentionTextarea = ({ value, onChange, placeholder }: {
+  value: string,
+  onChange: (value: string) => void,
+  placeholder?: string
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  // The word being typed right before the caret, when it starts with @
+  const query = value.substring(0, caret).match(/(?:^|\s)@([\w.-]*)$/)?.[1];
+  const { data: profiles = {} } = useCachedProfiles();
+
+  const suggestions = useMemo(() => {
+    if (query === undefined) return [];
+    const term = query.toLowerCase();
+    return Object.entries(profiles)
+      .filter(([, p]) => [p?.name, p?.display_name, p?.nip05].some(field => typeof field === 'string' && field.toLowerCase().includes(term)))
+      .slice(0, MAX_MENTION_SUGGESTIONS);
+  }, [profiles, query]);
+
+  const isOpen = !dismissed && suggestions.length > 0;
+
+  const update = (next: string, nextCaret: number) => {
+    onChange(next);
+    setCaret(nextCaret);
+    setHighlighted(0);
+    setDismissed(false);
+  };
+
+  const insertMention = (pubkey: string) => {
+    const start = caret - (query?.length ?? 0) - 1;
+    const mention = `nostr:${nip19.npubEncode(pubkey)} `;
+    const next = value.substring(0, start) + mention + value.substring(caret);
+    update(next, start + mention.length);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(start + mention.length, start + mention.length);
+    });
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (!isOpen) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(h => (h + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertMention(suggestions[Math.min(highlighted, suggestions.length - 1)][0]);
+    } else if (e.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea 
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => update(e.target.value, e.target.selectionStart)}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+        onKeyDown={onKeyDown}
+        onBlur={() => setDismissed(true)}
+        placeholder={placeholder}
+        className="w-full h-24 p-1 text-xs border border-inset border-gray-400 bg-white resize-none outline-none focus:ring-1 focus:ring-blue-500"
+      />
+      {isOpen && (
+        <div className="absolute left-0 right-0 top-full z-20 flex flex-col bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-black text-[10px] shadow-md">
+          {suggestions.map(([pubkey, profile], i) => (
+            <button 
+              key={pubkey}
+              // Runs before the textarea blur closes the list
+              onMouseDown={(e) => { e.preventDefault(); insertMention(pubkey); }}
+              className={cn("flex items-center gap-1 px-1 py-0.5 text-left", i === highlighted ? "bg-[#000080] text-white" : "hover:bg-[#000080] hover:text-white")}
+            >
+              <img src={profile?.picture || `https://robohash.org/${pubkey}?set=set4`} className="w-4 h-4 rounded-full flex-shrink-0" referrerPolicy="no-referrer" />
+              <span className="truncate">{profile?.display_name || profile?.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PUBLISH_STATUS_LABELS: Record<PublishResult['status'], string> = {
+  ok: "OK",
+  rejected: "Rejected",
+  timeout: "Timed out",
+  offline: "Offline",
+};
+
+const PublishStatusDialog = ({ results, onClose }: { results: PublishResult[], onClose: () => void }) => {
+  const accepted = results.filter(r => r.status === 'ok').length;
+  const queued = results.filter(r => r.queued).length;
+  const offline = results.length > 0 && results.every(r => r.status === 'offline');
+
+  return (
+    <div className="absolute inset-0 z-[200] flex items-center justify-center bg-black/30">
+      <div className="w-[380px] flex flex-col border-t-2 border-l-2 border-white border-b-2 border-r-2 border-black bg-[#C0C0C0] shadow-2xl text-black">
+        <div className="h-6 flex items-center justify-between px-1 bg-[#000080] text-white select-none">
+          <span className="font-bold text-xs">{offline ? "Saved to Outbox" : "Delivery Report"}</span>
+          <WindowButton onClick={onClose}><X size={10} /></WindowButton>
+        </div>
+        <div className="flex flex-col gap-2 p-3 text-xs">
+          <p>
+            {offline 
+              ? "You are offline. The note was saved and will be sent when the connection comes back."
+              : `Accepted by ${accepted} of ${results.length} relays.${queued > 0 ? ` ${queued} will be retried automatically.` : ""}`}
+          </p>
+          <div className="max-h-48 overflow-y-auto border border-inset border-gray-400 bg-white">
+            {results.map(r => (
+              <div key={r.relay} className="flex items-center gap-2 px-1 py-0.5 border-b border-gray-200 text-[10px]">
+                <div className={cn("w-2 h-2 flex-shrink-0 rounded-full", r.status === 'ok' ? "bg-green-500" : r.queued ? "bg-yellow-500" : "bg-red-500")} />
+                <span className="flex-grow truncate font-mono" title={r.relay}>{r.relay}</span>
+                <span className="flex-shrink-0 truncate max-w-[140px]" title={r.reason}>
+                  {PUBLISH_STATUS_LABELS[r.status]}{r.reason && r.status === 'rejected' ? `: ${r.reason}` : ""}{r.queued ? " (queued)" : ""}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <button 
+              onClick={onClose}
+              className="px-4 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold active:border-t-2 active:border-l-2 active:border-black active:border-b active:border-r active:border-white"
+            >
+              OK
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Only shown while something is waiting to be delivered
+const PublishQueueIndicator = ({ pool }: { pool: SimplePool }) => {
+  const queue = usePublishQueue();
+  const [isRetrying, setIsRetrying] = useState(false);
+  if (queue.length === 0) return null;
+
+  const retryNow = async () => {
+    setIsRetrying(true);
+    try {
+      await flushPublishQueue(pool, true);
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1 p-1 text-[10px] border border-inset border-gray-400 bg-yellow-50">
+      <span className="font-bold">Outbox: {queue.length} waiting</span>
+      <span className="text-gray-600 truncate" title={queue[queue.length - 1].lastError}>
+        {navigator.onLine ? queue[queue.length - 1].lastError ?? "Waiting to retry" : "Offline"}
+      </span>
+      <button 
+        onClick={retryNow}
+        disabled={isRetrying || !navigator.onLine}
+        className="px-2 py-0.5 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black font-bold active:border-t-2 active:border-l-2 active:border-black active:border-b active:border-r active:border-white disabled:opacity-50"
+      >
+        {isRetrying ? "Retrying..." : "Retry now"}
+      </button>
+    </div>
+  );
+};
+
+// Lives in its own component so relay traffic does not re-render the whole feed
+const RelayIndicator = ({ relays, onClick }: { relays: string[], onClick: () => void }) => {
+  const stats = useRelayStats();
+  const connected = relays.filter(r => statsFor(stats, r).state === 'connected').length;
+  return (
+    <button 
+      onClick={onClick} 
+      title="Open Network Neighborhood"
+      className="ml-auto flex items-center gap-2 px-2 text-[10px] font-mono hover:underline"
+    >
+      <div className={cn("w-2 h-2 rounded-full", connected > 0 ? "bg-green-500" : relays.length > 0 ? "bg-yellow-500" : "bg-red-500")} />
+      {connected}/{relays.length} Relays
+    </button>
+  );
+};
+
+// Only the notes near the viewport are mounted; heights are measured as they render
+const VirtualFeed = ({ notes, scrollRef, onEndReached, renderNote }: {
+  notes: NostrEvent[],
+  scrollRef: React.RefObject<HTMLDivElement | null>,
+  onEndReached: () => void,
+  renderNote: (note: NostrEvent) => React.ReactNode
+}) => {
+  const virtualizer = useVirtualizer({
+    count: notes.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 160,
+    overscan: 6,
+    getItemKey: (index) => notes[index].id,
+  });
+  const items = virtualizer.getVirtualItems();
+  const lastIndex = items[items.length - 1]?.index ?? -1;
+
+  useEffect(() => {
+    if (notes.length > 0 && lastIndex >= notes.length - 5) onEndReached();
+  }, [lastIndex, notes.length]);
+
+  return (
+    <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+      {items.map(item => (
+        <div 
+          key={item.key} 
+          data-index={item.index} 
+          ref={virtualizer.measureElement}
+          className="absolute left-0 w-full pb-4"
+          style={{ transform: `translateY(${item.start}px)` }}
+        >
+          {renderNote(notes[item.index])}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const PROFILE_FIELDS = [
+  { key: 'name', label: 'Name' },
+  { key: 'about', label: 'About' },
+  { key: 'picture', label: 'Picture URL' },
+  { key: 'banner', label: 'Banner URL' },
+  { key: 'nip05', label: 'NIP-05' },
+  { key: 'lud16', label: 'Lightning Address' },
+] as const;
+
+const ProfileView = ({ pool, relays, pubkey, userPk, signer, theme, actions }: {
+  pool: SimplePool,
+  relays: string[],
+  pubkey: string,
+  userPk: string | null,
+  signer: Signer | null,
+  theme: 'light' | 'dark',
+  actions: NoteActions
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState<Record<string, string>>({});
+  // The values the form started from, so saving only touches the fields that were edited
+  const [formOrigin, setFormOrigin] = useState<Record<string, string>>({});
+  const queryClient = useQueryClient();
+
+  const { data: metadata = {}, isLoading: isMetadataLoading, isSuccess: isMetadataLoaded } = useMetadata(pool, relays, [pubkey]);
+  const profile = metadata[pubkey] ?? {};
+
+  const { data: notes = [], isLoading } = useQuery({
+    queryKey: ['nostr_profile_notes', pubkey, relays],
+    queryFn: async () => {
+      const events = await queryOutbox(pool, relays, { kinds: [1, 6], authors: [pubkey], limit: 50 });
+      return events.sort((a, b) => b.created_at - a.created_at);
+    },
+  });
+  const repostedAuthors = notes.map(n => nip18.getRepostedEventPointer(n)?.author).filter((pk): pk is string => !!pk);
+  const { data: repostedMetadata = {} } = useMetadata(pool, relays, Array.from(new Set(repostedAuthors)));
+  const stats = useNoteStats(pool, relays, notes, userPk);
+
+  const saveMutation = useMutation({
+    mutationFn: async (fields: Record<string, string>) => {
+      // Everything but the edited fields comes from the latest kind 0, so it must really have been fetched
+      const latest = latestEvent(await queryOutboxStrict(pool, relays, { kinds: [0], authors: [pubkey] }));
+      const content = { ...parseMetadataEvents(latest ? [latest] : [])[pubkey], ...fields };
+      const event = await signEventTemplate({
+        kind: 0,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [],
+        content: JSON.stringify(content),
+      }, signer);
+
+      await publishOutbox(pool, relays, event);
+      return content;
+    },
+    onSuccess: (content) => {
+      queryClient.setQueriesData<Record<string, any>>({ queryKey: ['nostr_metadata'] }, (old) => 
+        old && pubkey in old ? { ...old, [pubkey]: content } : old
+      );
+      queryClient.setQueryData(['nostr_metadata', [pubkey], relays], (old: Record<string, any> = {}) => ({ ...old, [pubkey]: content }));
+      setIsEditing(false);
+    },
+    onError: (e) => alert(e.message)
+  });
+
+  const startEditing = () => {
+    const values = Object.fromEntries(PROFILE_FIELDS.map(({ key }) => [key, profile[key] ?? '']));
+    setForm(values);
+    setFormOrigin(values);
+    setIsEditing(true);
+  };
+
+  const saveEdits = () => saveMutation.mutate(Object.fromEntries(Object.entries(form).filter(([key, value]) => value !== formOrigin[key])));
+
+  const isOwn = pubkey === userPk;
+  const name = profile.display_name || profile.name || pubkey.substring(0, 8);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="border-2 border-inset border-gray-400">
+        <div 
+          className="h-24 bg-[#000080] bg-cover bg-center" 
+          style={profile.banner ? { backgroundImage: `url(${profile.banner})` } : undefined} 
+        />
+        <div className="flex items-end gap-3 px-3 -mt-8">
+          <img 
+            src={profile.picture || `https://robohash.org/${pubkey}?set=set4`} 
+            className="w-16 h-16 rounded-full border-2 border-white bg-gray-200 flex-shrink-0" 
+            referrerPolicy="no-referrer" 
+          />
+          <div className="flex flex-col overflow-hidden pb-1">
+            <span className="font-bold text-sm truncate">{isMetadataLoading ? "Loading..." : name}</span>
+            <span className="text-[10px] text-gray-400 font-mono truncate">{nip19.npubEncode(pubkey)}</span>
+          </div>
+          {isOwn && !isEditing && (
+            <div className="ml-auto pb-1 text-black">
+              <ToolbarButton active={false} onClick={startEditing} disabled={!isMetadataLoaded}>
+                <User size={14} /> Edit Profile
+              </ToolbarButton>
+            </div>
+          )}
+        </div>
+        <div className="flex flex-col gap-1 p-3 text-xs">
+          {profile.about && <p className="whitespace-pre-wrap break-words">{profile.about}</p>}
+          {profile.nip05 && <span className="text-gray-400">✔ {profile.nip05}</span>}
+          {profile.lud16 && <span className="text-gray-400 flex items-center gap-1"><Zap size={10} /> {profile.lud16}</span>}
+        </div>
+      </div>
+
+      {isEditing && (
+        <div className="flex flex-col gap-2 p-2 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-black">
+          {PROFILE_FIELDS.map(({ key, label }) => (
+            <label key={key} className="flex flex-col gap-0.5 text-[10px] font-bold">
+              {label}
+              {key === 'about' ? (
+                <textarea
+                  value={form[key]}
+                  onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                  className="h-16 p-1 text-xs font-normal border border-inset border-gray-400 bg-white resize-none outline-none"
+                />
+              ) : (
+                <input
+                  value={form[key]}
+                  onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                  className="p-1 text-xs font-normal border border-inset border-gray-400 bg-white outline-none"
+                />
+              )}
+            </label>
+          ))}
+          <div className="flex justify-end gap-1">
+            <ToolbarButton active={false} onClick={() => setIsEditing(false)}>Cancel</ToolbarButton>
+            <ToolbarButton active={false} onClick={saveEdits}>
+              {saveMutation.isPending ? "Saving..." : "Save & Publish"}
+            </ToolbarButton>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center text-gray-400 italic text-xs p-4">Loading notes...</div>
+      ) : notes.length === 0 ? (
+        <div className="text-center text-gray-400 italic text-xs p-4">No notes yet.</div>
+      ) : (
+        <div className="flex flex-col gap-4">
+          {notes.map(note => (
+            <FeedItem
+              key={note.id}
+              pool={pool}
+              relays={relays}
+              note={note}
+              theme={theme}
+              metadata={{ ...repostedMetadata, [pubkey]: profile }}
+              stats={stats}
+              actions={actions}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ThreadView = ({ pool, relays, userPk, focus, theme, onBack, actions }: {
+  pool: SimplePool,
+  relays: string[],
+  userPk: string | null,
+  focus: NostrEvent,
+  theme: 'light' | 'dark',
+  onBack: () => void,
+  actions: NoteActions
+}) => {
+  const { data: events = [focus], isLoading } = useQuery({
+    queryKey: ['nostr_thread', focus.id, relays],
+    queryFn: async () => {
+      const found = new Map<string, NostrEvent>([[focus.id, focus]]);
+
+      // Walk up the reply chain
+      let cursor = focus;
+      for (let depth = 0; depth < MAX_THREAD_DEPTH; depth++) {
+        const parentId = getParentId(cursor);
+        if (!parentId || found.has(parentId)) break;
+        const parent = await pool.get(relays, { ids: [parentId] });
+        if (!parent) break;
+        found.set(parent.id, parent);
+        cursor = parent;
+      }
+
+      const rootId = getRootId(focus);
+      if (!found.has(rootId)) {
+        const root = await pool.get(relays, { ids: [rootId] });
+        if (root) found.set(root.id, root);
+      }
+
+      // Everything that references the root or the focused note
+      const replies = await pool.querySync(relays, { kinds: [1], '#e': Array.from(new Set([rootId, focus.id])), limit: 500 });
+      replies.forEach(e => found.set(e.id, e));
+      return Array.from(found.values());
+    },
+  });
+
+  const pubkeys = Array.from(new Set(events.map(e => e.pubkey)));
+  const { data: metadata = {} } = useMetadata(pool, relays, pubkeys);
+  const stats = useNoteStats(pool, relays, events, userPk);
+  // The focused note stays visible even when muted, since it was opened on purpose
+  const tree = flattenThread(events).filter(({ event }) => event.id === focus.id || !actions.isMuted?.(event));
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2 text-black dark:text-white">
+        <ToolbarButton active={false} onClick={onBack}>
+          <ArrowLeft size={14} /> Back
+        </ToolbarButton>
+        <span className="text-xs font-bold">Thread</span>
+        {isLoading && <span className="text-[10px] text-gray-400 italic">Loading replies...</span>}
+      </div>
+      {tree.map(({ event, depth }) => (
+        <div
+          key={event.id}
+          style={{ marginLeft: Math.min(depth, 8) * 16 }}
+          className={cn(depth > 0 && "border-l-2 border-gray-300 dark:border-gray-700", event.id === focus.id && "bg-yellow-50 dark:bg-white/10")}
+        >
+          <Note
+            pool={pool}
+            relays={relays}
+            note={event}
+            theme={theme}
+            metadata={metadata[event.pubkey]}
+            stats={stats[event.id]}
+            actions={actions}
+            isFocused={event.id === focus.id}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Renders a feed entry, unwrapping kind 6 reposts into the note they carry
+const FeedItem = ({ pool, relays, note, theme, metadata, stats, actions }: {
+  pool: SimplePool,
+  relays: string[],
+  note: NostrEvent,
+  theme: 'light' | 'dark',
+  metadata: Record<string, any>,
+  stats: Record<string, NoteStats>,
+  actions?: NoteActions
+}) => actions?.isMuted?.(note) ? null : isRepost(note) ? (
+  <RepostNote pool={pool} relays={relays} repost={note} theme={theme} metadata={metadata} stats={stats} actions={actions} />
+) : (
+  <Note pool={pool} relays={relays} note={note} theme={theme} metadata={metadata[note.pubkey]} stats={stats[note.id]} actions={actions} />
+);
+
+const RepostNote = ({ pool, relays, repost, theme, metadata, stats, actions }: {
+  pool: SimplePool,
+  relays: string[],
+  repost: NostrEvent,
+  theme: 'light' | 'dark',
+  metadata: Record<string, any>,
+  stats: Record<string, NoteStats>,
+  actions?: NoteActions
+}) => {
+  const pointer = nip18.getRepostedEventPointer(repost);
+  const embedded = nip18.getRepostedEvent(repost);
+
+  // Reposts may leave the content empty, in which case the original is fetched by id
+  const { data: fetched = null } = useQuery({
+    queryKey: ['nostr_event', pointer?.id],
+    queryFn: () => pool.get(Array.from(new Set([...(pointer?.relays ?? []).filter(Boolean), ...relays])), { ids: [pointer!.id] }),
+    enabled: !embedded && !!pointer,
+    staleTime: Infinity,
+  });
+  const original = embedded ?? fetched;
+  const reposter = metadata[repost.pubkey]?.name || metadata[repost.pubkey]?.display_name || repost.pubkey.substring(0, 8);
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-center gap-1 px-3 pt-2 text-[10px] text-gray-400">
+        <RefreshCw size={10} />
+        <button onClick={() => actions?.openProfile(repost.pubkey)} className="font-bold hover:underline">{reposter}</button>
+        reposted
+      </div>
+      {original && actions?.isMuted?.(original) ? (
+        <div className="px-3 pb-3 text-xs text-gray-400 italic">Reposted note is muted.</div>
+      ) : original ? (
+        <Note pool={pool} relays={relays} note={original} theme={theme} metadata={metadata[original.pubkey]} stats={stats[original.id]} actions={actions} />
+      ) : (
+        <div className="px-3 pb-3 text-xs text-gray-400 italic">Loading reposted note...</div>
+      )}
+    </div>
+  );
+};
+
+const ReactionBadge = ({ content, url }: { content: string, url?: string }) => {
+  if (content === '+') return <Heart size={10} className="text-red-500" />;
+  if (url) return <img src={url} alt={content} title={content} className="w-3 h-3 object-contain" referrerPolicy="no-referrer" />;
+  return <span>{content}</span>;
+};
+
+// Quotes inside quotes are shown as links rather than fetched without end
+const MAX_QUOTE_DEPTH = 1;
+
+const shortId = (code: string) => `${code.substring(0, 12)}…${code.substring(code.length - 6)}`;
+
+const pointerCode = (pointer: nip19.EventPointer | nip19.AddressPointer) =>
+  'identifier' in pointer ? nip19.naddrEncode(pointer) : nip19.neventEncode(pointer);
+
+// Content is plain text (NIP-27); markdown and HTML in notes are shown as typed, never interpreted
+const NoteContent = ({ pool, relays, note, actions, depth = 0 }: {
+  pool: SimplePool,
+  relays: string[],
+  note: NostrEvent,
+  actions?: NoteActions,
+  depth?: number
+}) => {
+  const blocks = useMemo(() => parseNoteContent(note), [note]);
+  const mentioned = Array.from(new Set(blocks.flatMap(b => b.type === 'reference' && isProfilePointer(b.pointer) ? [b.pointer.pubkey] : [])));
+  const { data: names = {} } = useMetadata(pool, relays, mentioned);
+
+  const renderBlock = (block: ContentBlock, i: number) => {
+    switch (block.type) {
+      case 'text':
+        return <React.Fragment key={i}>{block.text}</React.Fragment>;
+      case 'hashtag':
+        return (
+          <button key={i} onClick={() => actions?.openHashtag(block.value)} className="text-blue-500 hover:underline">
+            #{block.value}
+          </button>
+        );
+      case 'url':
+        return <a key={i} href={block.url} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline break-all">{block.url}</a>;
+      case 'relay':
+        return <span key={i} className="font-mono text-xs text-gray-500">{block.url}</span>;
+      case 'emoji':
+        return <img key={i} src={block.url} alt={`:${block.shortcode}:`} title={`:${block.shortcode}:`} className="inline w-5 h-5 object-contain align-text-bottom" referrerPolicy="no-referrer" />;
+      case 'image':
+      case 'video':
+      case 'audio':
+        return <MediaEmbed key={i} pool={pool} relays={relays} author={note.pubkey} type={block.type} url={block.url} meta={block.meta} />;
+      case 'reference': {
+        const { pointer } = block;
+        if ('id' in pointer || 'identifier' in pointer) {
+          return depth < MAX_QUOTE_DEPTH
+            ? <QuotedEvent key={i} pool={pool} relays={relays} pointer={pointer} actions={actions} depth={depth + 1} />
+            : <span key={i} className="font-mono text-xs text-gray-500">nostr:{shortId(pointerCode(pointer))}</span>;
+        }
+        const profile = names[pointer.pubkey];
+        return (
+          <button key={i} onClick={() => actions?.openProfile(pointer.pubkey)} className="text-blue-500 hover:underline">
+            @{profile?.name || profile?.display_name || shortId(nip19.npubEncode(pointer.pubkey))}
+          </button>
+        );
+      }
+    }
+  };
+
+  return <div className="text-sm leading-relaxed break-words whitespace-pre-wrap">{blocks.map(renderBlock)}</div>;
+};
+
+// `dim` reserves the space up front so the virtualized feed does not jump when media loads
+const MediaEmbed = ({ pool, relays, author, type, url, meta }: {
+  pool: SimplePool,
+  relays: string[],
+  author: string,
+  type: 'image' | 'video' | 'audio',
+  url: string,
+  meta?: MediaMeta
+}) => {
+  const [attempt, setAttempt] = useState(0);
+  const declared = [url, ...(meta?.fallback ?? [])];
+  // Once the declared URLs are exhausted, look the hash up on the author's servers (BUD-03)
+  const { servers, isFetched } = useBlossomServers(pool, relays, attempt >= declared.length ? author : null);
+  const sources = Array.from(new Set([...declared, ...blobUrls(url, [...servers, ...DEFAULT_BLOSSOM_SERVERS])]));
+  const src = attempt < declared.length || isFetched ? sources[attempt] : undefined;
+  const style = meta?.width && meta?.height ? { aspectRatio: `${meta.width} / ${meta.height}` } : undefined;
+  const onError = () => setAttempt(a => a + 1);
+
+  if (!src) return <a href={url} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline break-all">{url}</a>;
+  if (type === 'audio') return <audio src={src} controls preload="none" onError={onError} className="block w-full my-2" />;
+  if (type === 'video') {
+    return <video src={src} controls preload="metadata" onError={onError} style={style} className="block max-w-full max-h-96 my-2 rounded border border-gray-200 bg-black" />;
+  }
+  return (
+    <img 
+      src={src} 
+      alt={meta?.alt ?? ''} 
+      title={meta?.alt}
+      loading="lazy" 
+      onError={onError}
+      style={style}
+      className="block max-w-full max-h-96 h-auto my-2 rounded border border-gray-200 bg-gray-100" 
+      referrerPolicy="no-referrer" 
+    />
+  );
+};
+
+const QuotedEvent = ({ pool, relays, pointer, actions, depth }: {
+  pool: SimplePool,
+  relays: string[],
+  pointer: nip19.EventPointer | nip19.AddressPointer,
+  actions?: NoteActions,
+  depth: number
+}) => {
+  const isAddress = 'identifier' in pointer;
+  const hints = (pointer.relays ?? []).filter(Boolean);
+  const { data: event = null, isLoading } = useQuery({
+    queryKey: ['nostr_event', isAddress ? `${pointer.kind}:${pointer.pubkey}:${pointer.identifier}` : pointer.id],
+    queryFn: () => pool.get(
+      Array.from(new Set([...hints, ...relays])),
+      isAddress ? { kinds: [pointer.kind], authors: [pointer.pubkey], '#d': [pointer.identifier] } : { ids: [pointer.id] }
+    ),
+    staleTime: Infinity,
+  });
+  const { data: metadata = {} } = useMetadata(pool, relays, event ? [event.pubkey] : []);
+
+  if (!event) {
+    return (
+      <span className="block my-2 p-2 text-xs italic text-gray-400 border border-gray-300 dark:border-gray-700 rounded">
+        {isLoading ? "Loading quoted note..." : "Quoted note not found."}
+      </span>
+    );
+  }
+
+  const author = metadata[event.pubkey]?.name || metadata[event.pubkey]?.display_name || event.pubkey.substring(0, 8);
+  const title = event.tags.find(t => t[0] === 'title')?.[1];
+  const open = (e: React.MouseEvent) => {
+    if ((e.target as HTMLElement).closest('a, button, video, audio')) return;
+    e.stopPropagation();
+    if (event.kind === 1) actions?.openThread(event);
+    else if (event.kind === ARTICLE_KIND) actions?.openArticle?.(articleAddress(parseArticle(event)));
+  };
+
+  return (
+    <div onClick={open} className="my-2 p-2 border border-gray-300 dark:border-gray-700 rounded bg-black/5 dark:bg-white/5 cursor-pointer whitespace-normal">
+      <div className="flex justify-between text-[10px] text-gray-400">
+        <span className="font-bold text-blue-600 dark:text-blue-400">{author}</span>
+        <span>{new Date(event.created_at * 1000).toLocaleString()}</span>
+      </div>
+      {title ? (
+        <div className="text-xs font-bold">{title}</div>
+      ) : (
+        <div className="max-h-48 overflow-hidden">
+          <NoteContent pool={pool} relays={relays} note={event} actions={actions} depth={depth} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Note = ({ pool, relays, note, theme, metadata, stats, actions, isFocused }: { 
+  pool: SimplePool,
+  relays: string[],
+  note: NostrEvent, 
+  theme: 'light' | 'dark', 
+  metadata?: any,
+  stats?: NoteStats,
+  actions?: NoteActions,
+  isFocused?: boolean
+}) => {
+  const [menu, setMenu] = useState<'repost' | 'react' | 'mute' | null>(null);
+  const warning = note.tags.find(t => t[0] === 'content-warning');
+  const [isRevealed, setIsRevealed] = useState(false);
+  const collapsedReason = warning ? `Content warning${warning[1] ? `: ${warning[1]}` : ""}` 
+    : actions?.isFlagged?.(note) ? "Possible spam: the same text was posted many times" 
+    : null;
+  const author = metadata?.name || metadata?.display_name || note.pubkey.substring(0, 8);
+  const avatar = metadata?.picture || `https://robohash.org/${note.pubkey}?set=set4`;
+  const date = new Date(note.created_at * 1000).toLocaleString();
+  const isFollowing = actions?.isFollowing?.(note.pubkey);
+  const isBookmarked = actions?.isBookmarked?.(note);
+  const canOpen = actions && !isFocused;
+  const reactions = Object.entries(stats?.reactions ?? {}).sort((a, b) => b[1].count - a[1].count).slice(0, 6);
+
+  // Links and action buttons inside the note keep their own behaviour
+  const handleOpen = (e: React.MouseEvent) => {
+    if (!canOpen || (e.target as HTMLElement).closest('a, button, video, audio')) return;
+    actions.openThread(note);
+  };
+
+  const hasReacted = (content: string) => !!stats?.reactions[content]?.mine;
+  const isLiked = hasReacted('+');
+
+  const react = (content: string, emojiUrl?: string) => {
+    setMenu(null);
+    if (!hasReacted(content)) actions?.react(note, content, emojiUrl);
+  };
+
+  const reactCustom = () => {
+    const input = prompt("Custom emoji: :shortcode: followed by its image URL");
+    const match = input?.trim().match(/^:([\w-]+):\s+(https?:\/\/\S+)$/);
+    if (match) react(`:${match[1]}:`, match[2]);
+    else if (input) alert("Use the format :shortcode: https://example.com/emoji.png");
+  };
+
+  return (
+    <div 
+      onClick={handleOpen}
+      className={cn(
+        "p-3 border-b border-gray-100 dark:border-gray-800 flex gap-3",
+        theme === 'dark' ? "hover:bg-white/5" : "hover:bg-black/5",
+        canOpen && "cursor-pointer"
+      )}
+    >
+      <img src={avatar} className="w-10 h-10 rounded-full border border-gray-200 flex-shrink-0" referrerPolicy="no-referrer" />
+      
+      <div className="flex flex-col gap-1 flex-grow overflow-hidden">
+        <div className="flex justify-between items-center text-[10px]">
+          <div className="flex items-center gap-2 overflow-hidden">
+            <button 
+              onClick={() => actions?.openProfile(note.pubkey)} 
+              className={cn("font-bold text-blue-600 dark:text-blue-400 truncate max-w-[150px] text-left", actions && "hover:underline")}
+            >
+              {author} {metadata?.nip05 && <span className="text-gray-400 font-normal">({metadata.nip05})</span>}
+            </button>
+            {isFollowing !== undefined && actions?.toggleFollow && (
+              <button 
+                onClick={() => actions.toggleFollow!(note.pubkey)} 
+                disabled={!actions.canFollow}
+                title={actions.canFollow ? undefined : "Loading your contact list..."}
+                className="flex items-center gap-0.5 text-gray-400 hover:text-blue-500 flex-shrink-0 disabled:opacity-50 disabled:hover:text-gray-400"
+              >
+                {isFollowing ? <><UserMinus size={10} /> Unfollow</> : <><UserPlus size={10} /> Follow</>}
+              </button>
+            )}
+          </div>
+          <span className="text-gray-400 flex-shrink-0">{date}</span>
+        </div>
+        
+        {collapsedReason && !isRevealed ? (
+          <div className="flex items-center justify-between gap-2 p-2 text-xs border border-dashed border-gray-400 text-gray-500">
+            <span className="truncate">⚠ {collapsedReason}</span>
+            <button onClick={() => setIsRevealed(true)} className="flex-shrink-0 text-blue-500 hover:underline">Show</button>
+          </div>
+        ) : (
+          <NoteContent pool={pool} relays={relays} note={note} actions={actions} />
+        )}
+
+        {reactions.length > 0 && (
+          <div className="flex flex-wrap gap-1 text-[10px]">
+            {reactions.map(([content, { count, url, mine }]) => (
+              <button 
+                key={content} 
+                onClick={() => react(content, url)}
+                disabled={mine}
+                title={mine ? "You reacted with this" : undefined}
+                className={cn(
+                  "flex items-center gap-1 px-1 border rounded",
+                  mine ? "border-blue-400 bg-blue-500/10" : "border-gray-300 dark:border-gray-700 hover:bg-black/5 dark:hover:bg-white/10"
+                )}
+              >
+                <ReactionBadge content={content} url={url} /> {count}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="relative flex gap-4 text-[10px] text-gray-400 mt-1">
+          <button onClick={() => actions?.zap(note, metadata)} className={cn("flex items-center gap-1 hover:text-orange-500", stats?.zaps && "text-orange-500")}>
+            <Zap size={12} /> {stats?.zaps ? `${stats.zaps.toLocaleString()} sats` : "Zap"}
+          </button>
+          <button onClick={() => actions?.reply(note)} className="flex items-center gap-1 hover:text-blue-500">
+            <MessageSquare size={12} /> Reply
+          </button>
+          <button onClick={() => setMenu(menu === 'repost' ? null : 'repost')} className="flex items-center gap-1 hover:text-green-500">
+            <RefreshCw size={12} /> {stats?.reposts ? stats.reposts : "Repost"}
+          </button>
+          <button onClick={() => react('+')} disabled={isLiked} className={cn("flex items-center gap-1", isLiked ? "text-red-500" : "hover:text-red-500")}>
+            <Heart size={12} fill={isLiked ? "currentColor" : "none"} /> {isLiked ? "Liked" : "Like"}
+          </button>
+          <button onClick={() => setMenu(menu === 'react' ? null : 'react')} className="flex items-center gap-1 hover:text-yellow-500">
+            <Smile size={12} />
+          </button>
+          {actions?.toggleBookmark && (
+            <button 
+              onClick={() => actions.toggleBookmark!(note)} 
+              title={isBookmarked ? "Remove bookmark" : "Bookmark"} 
+              className={cn("flex items-center gap-1 hover:text-purple-500", isBookmarked && "text-purple-500")}
+            >
+              <Bookmark size={12} fill={isBookmarked ? "currentColor" : "none"} />
+            </button>
+          )}
+          {actions?.mute && (
+            <button onClick={() => setMenu(menu === 'mute' ? null : 'mute')} title="Mute" className="flex items-center gap-1 hover:text-gray-600">
+              <VolumeX size={12} />
+            </button>
+          )}
+
+          {menu && (
+            <div className="absolute top-4 left-24 z-10 flex flex-col bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-black text-xs shadow-md">
+              {menu === 'mute' ? (
+                <>
+                  <button onClick={() => { setMenu(null); actions?.mute?.('pubkey', note.pubkey); }} className="flex items-center gap-2 px-3 py-1 text-left hover:bg-[#000080] hover:text-white">
+                    <VolumeX size={12} /> Mute {author}
+                  </button>
+                  <button onClick={() => { setMenu(null); actions?.mute?.('pubkey', note.pubkey, true); }} className="flex items-center gap-2 px-3 py-1 text-left hover:bg-[#000080] hover:text-white">
+                    <Lock size={12} /> Mute {author} privately
+                  </button>
+                  <button onClick={() => { setMenu(null); actions?.mute?.('thread', getRootId(note)); }} className="flex items-center gap-2 px-3 py-1 text-left hover:bg-[#000080] hover:text-white">
+                    <MessageSquare size={12} /> Mute this thread
+                  </button>
+                </>
+              ) : menu === 'repost' ? (
+                <>
+                  <button onClick={() => { setMenu(null); actions?.repost(note); }} className="flex items-center gap-2 px-3 py-1 text-left hover:bg-[#000080] hover:text-white">
+                    <RefreshCw size={12} /> Repost
+                  </button>
+                  <button onClick={() => { setMenu(null); actions?.quote(note); }} className="flex items-center gap-2 px-3 py-1 text-left hover:bg-[#000080] hover:text-white">
+                    <Quote size={12} /> Quote
+                  </button>
+                </>
+              ) : (
+                <div className="flex items-center gap-1 p-1">
+                  {QUICK_REACTIONS.map(r => (
+                    <button key={r} onClick={() => react(r)} disabled={hasReacted(r)} className="px-1 hover:bg-[#000080] hover:text-white disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-black">
+                      {r === '+' ? <Heart size={12} /> : r}
+                    </button>
+                  ))}
+                  <button onClick={reactCustom} className="px-1 text-[10px] hover:bg-[#000080] hover:text-white">Custom...</button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// nostr: links survive the URL sanitizer so mentions stay clickable; raw HTML is never enabled
+const markdownUrlTransform = (url: string) => url.startsWith('nostr:') ? url : defaultUrlTransform(url);
+
+/** Markdown body for long-form content; NIP-27 references open inside Nostalgia */
+const ArticleMarkdown = ({ content, actions }: { content: string, actions?: NoteActions }) => {
+  const openReference = (href: string) => {
+    try {
+      const decoded = nip19.decode(href.replace(/^nostr:/, ''));
+      if (decoded.type === 'npub') actions?.openProfile(decoded.data);
+      else if (decoded.type === 'nprofile') actions?.openProfile(decoded.data.pubkey);
+      else if (decoded.type === 'naddr' && decoded.data.kind === ARTICLE_KIND) actions?.openArticle?.(href.replace(/^nostr:/, ''));
+    } catch (e) {
+      console.warn("Invalid nostr: link", href);
+    }
+  };
+
+  return (
+    <div className="prose prose-sm dark:prose-invert max-w-none break-words">
+      <ReactMarkdown 
+        remarkPlugins={[remarkGfm]}
+        urlTransform={markdownUrlTransform}
+        components={{
+          a: ({ href = '', children }) => href.startsWith('nostr:') ? (
+            <button onClick={() => openReference(href)} className="text-purple-600 dark:text-purple-400 hover:underline">{children}</button>
+          ) : (
+            <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">{children}</a>
+          ),
+          img: ({ src, alt }) => <img src={typeof src === 'string' ? src : undefined} alt={alt} className="max-w-full rounded" referrerPolicy="no-referrer" loading="lazy" />,
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+const ArticleList = ({ pool, relays, authors, onOpen }: {
+  pool: SimplePool,
+  relays: string[],
+  authors: string[],
+  onOpen: (naddr: string) => void
+}) => {
+  const { data: articles = [], isLoading } = useQuery({
+    queryKey: ['nostr_articles', authors, relays],
+    queryFn: async () => latestArticles(await queryOutbox(pool, relays, { kinds: [ARTICLE_KIND], authors, limit: 50 })),
+  });
+  const { data: metadata = {} } = useMetadata(pool, relays, Array.from(new Set(articles.map(a => a.pubkey))));
+
+  if (isLoading) return <div className="flex items-center justify-center h-full text-gray-400 italic">Loading articles...</div>;
+  if (articles.length === 0) return <div className="flex items-center justify-center h-full text-gray-400 italic">No articles from the people you follow yet.</div>;
+
+  return (
+    <div className="flex flex-col gap-2 p-2">
+      {articles.map(article => (
+        <button 
+          key={`${article.pubkey}:${article.identifier}`}
+          onClick={() => onOpen(articleAddress(article, relays))}
+          className="flex gap-2 p-2 text-left border border-gray-300 dark:border-gray-700 rounded hover:bg-black/5 dark:hover:bg-white/5"
+        >
+          {article.image && <img src={article.image} className="w-20 h-16 object-cover rounded flex-shrink-0" referrerPolicy="no-referrer" loading="lazy" />}
+          <div className="flex flex-col gap-0.5 overflow-hidden">
+            <span className="font-bold text-sm truncate">{article.title || article.identifier}</span>
+            <span className="text-[10px] text-gray-400">
+              <span className="font-bold text-blue-600 dark:text-blue-400">
+                {metadata[article.pubkey]?.name || metadata[article.pubkey]?.display_name || article.pubkey.substring(0, 8)}
+              </span>
+              {" · "}{new Date(article.publishedAt * 1000).toLocaleDateString()}
+            </span>
+            {article.summary && <span className="text-xs line-clamp-2">{article.summary}</span>}
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const ArticleView = ({ pool, relays, naddr, onBack, actions }: {
+  pool: SimplePool,
+  relays: string[],
+  naddr: string,
+  onBack: () => void,
+  actions: NoteActions
+}) => {
+  const pointer = useMemo(() => {
+    try {
+      const decoded = nip19.decode(naddr);
+      return decoded.type === 'naddr' ? decoded.data : null;
+    } catch (e) {
+      return null;
+    }
+  }, [naddr]);
+
+  // Shares the cache entry with quoted articles
+  const { data: event = null, isLoading } = useQuery({
+    queryKey: ['nostr_event', pointer ? `${pointer.kind}:${pointer.pubkey}:${pointer.identifier}` : naddr],
+    queryFn: () => pool.get(
+      Array.from(new Set([...(pointer!.relays ?? []), ...relays])),
+      { kinds: [pointer!.kind], authors: [pointer!.pubkey], '#d': [pointer!.identifier] }
+    ),
+    enabled: !!pointer,
+    staleTime: Infinity,
+  });
+  const article = event ? parseArticle(event) : null;
+  const { data: metadata = {} } = useMetadata(pool, relays, article ? [article.pubkey] : []);
+  const author = article && (metadata[article.pubkey]?.display_name || metadata[article.pubkey]?.name || article.pubkey.substring(0, 8));
+
+  return (
+    <div className="flex flex-col">
+      <div className="sticky top-0 z-10 flex items-center gap-2 p-1 bg-[#C0C0C0] text-black border-b border-gray-400">
+        <ToolbarButton active={false} onClick={onBack}>
+          <ArrowLeft size={14} /> Back
+        </ToolbarButton>
+        <span className="text-xs font-bold truncate">{article?.title || "Article"}</span>
+      </div>
+      {!article ? (
+        <div className="p-4 text-center text-gray-400 italic">
+          {!pointer ? "Invalid article address." : isLoading ? "Loading article..." : "Article not found."}
+        </div>
+      ) : (
+        <article className="p-4 flex flex-col gap-2">
+          {article.image && <img src={article.image} className="w-full max-h-56 object-cover rounded" referrerPolicy="no-referrer" />}
+          <h1 className="text-xl font-bold">{article.title || article.identifier}</h1>
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <button onClick={() => actions.openProfile(article.pubkey)} className="font-bold text-blue-600 dark:text-blue-400 hover:underline">{author}</button>
+            <span>{new Date(article.publishedAt * 1000).toLocaleDateString()}</span>
+            {article.event.created_at > article.publishedAt + 60 && <span>(edited {new Date(article.event.created_at * 1000).toLocaleDateString()})</span>}
+            <button onClick={() => actions.zap(article.event, metadata[article.pubkey])} className="ml-auto flex items-center gap-1 hover:text-yellow-500">
+              <Zap size={12} /> Zap
+            </button>
+          </div>
+          {article.summary && <p className="text-sm italic text-gray-500">{article.summary}</p>}
+          {article.hashtags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {article.hashtags.map(tag => (
+                <button key={tag} onClick={() => actions.openHashtag(tag)} className="text-xs text-purple-600 dark:text-purple-400 hover:underline">#{tag}</button>
+              ))}
+            </div>
+          )}
+          <hr className="border-gray-300 dark:border-gray-700" />
+          <ArticleMarkdown content={article.content} actions={actions} />
+        </article>
+      )}
+    </div>
+  );
+};
+
+const ToolbarButton = ({ children, active, onClick, disabled }: { children: React.ReactNode, active: boolean, onClick: () => void, disabled?: boolean }) => (
+  <button 
+    onClick={onClick}
+    disabled={disabled}
+    className={cn(
+      "flex items-center gap-1 px-2 py-1 text-xs border-t border-l border-white border-b-2 border-r-2 border-black active:border-t-2 active:border-l-2 active:border-black active:border-b active:border-r active:border-white disabled:opacity-50",
+      active && "bg-gray-300 border-t-2 border-l-2 border-black border-b border-r border-white"
+    )}
+  >
+    {children}
+  </button>
+);
+
+// --- GemNotes ---
+
+const GemNotesApp = ({ pool, relays, userPk, signer, theme }: {
+  pool: SimplePool,
+  relays: string[],
+  userPk: string | null,
+  signer: Signer | null,
+  theme: 'light' | 'dark'
+}) => {
+  const queryClient = useQueryClient();
+  const [fields, setFields] = usePersistentState<ArticleFields>(userPk, 'gemnotes.fields', emptyArticle());
+  const [tagsInput, setTagsInput] = usePersistentState(userPk, 'gemnotes.tags', '');
+  // The version we opened or last saved, for its published_at and kind
+  const [loaded, setLoaded] = usePersistentState<Article | null>(userPk, 'gemnotes.loaded', null);
+  const [showOpen, setShowOpen] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const { data: ownArticles = [], isLoading: isLoadingOwn } = useQuery({
+    queryKey: ['nostr_own_articles', userPk, relays],
+    queryFn: async () => latestArticles(await queryOutbox(pool, relays, { kinds: [ARTICLE_KIND, DRAFT_KIND], authors: [userPk!] })),
+    enabled: !!userPk && showOpen,
+  });
+
+  const update = (patch: Partial<ArticleFields>) => setFields(prev => ({ ...prev, ...patch }));
+
+  const load = (article: Article | null) => {
+    setLoaded(article);
+    setFields(article ?? emptyArticle());
+    setTagsInput(article?.hashtags.join(', ') ?? '');
+    setShowOpen(false);
+    setStatus(article ? `Opened ${article.kind === DRAFT_KIND ? "draft" : "article"} "${article.title || article.identifier}"` : '');
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (kind: number) => {
+      const hashtags = tagsInput.split(',').map(t => t.trim().replace(/^#/, '')).filter(Boolean);
+      const publishedAt = loaded?.kind === ARTICLE_KIND ? loaded.publishedAt : undefined;
+      const event = await signEventTemplate(buildArticleTemplate({ ...fields, hashtags }, kind, publishedAt), signer);
+      await publishOutbox(pool, relays, event);
+      const saved = parseArticle(event);
+      // Publishing supersedes the draft with the same identifier
+      if (kind === ARTICLE_KIND && loaded?.kind === DRAFT_KIND) {
+        const deletion = await signEventTemplate({
+          kind: 5,
+          created_at: Math.floor(Date.now() / 1000),
+          tags: [['a', `${DRAFT_KIND}:${saved.pubkey}:${loaded.identifier}`]],
+          content: '',
+        }, signer);
+        await publishOutbox(pool, relays, deletion);
+      }
+      return saved;
+    },
+    onSuccess: (saved) => {
+      setLoaded(saved);
+      setFields(prev => ({ ...prev, identifier: saved.identifier }));
+      setStatus(saved.kind === DRAFT_KIND ? `Draft saved at ${new Date().toLocaleTimeString()}` : `Published as ${articleAddress(saved, relays)}`);
+      queryClient.invalidateQueries({ queryKey: ['nostr_own_articles'] });
+      queryClient.invalidateQueries({ queryKey: ['nostr_articles'] });
+    },
+    onError: (e: any) => alert(e.message),
+  });
+
+  const publish = () => {
+    if (!fields.title.trim()) {
+      alert("Give the article a title before publishing");
+      return;
+    }
+    if (confirm(loaded?.kind === ARTICLE_KIND ? "Publish your changes to this article?" : "Publish this article to your relays?")) {
+      saveMutation.mutate(ARTICLE_KIND);
+    }
+  };
+
+  const canSave = !!signer && !saveMutation.isPending && (fields.title.trim() || fields.content.trim());
+  const inputClass = "flex-grow p-1 border border-inset border-gray-400 bg-white text-black outline-none";
+
+  return (
+    <div className="flex flex-col w-[640px] h-[460px] text-xs">
+      <div className="relative flex flex-wrap items-center gap-1 p-1 bg-[#C0C0C0] text-black border-b border-gray-400">
+        <ToolbarButton active={false} onClick={() => (!fields.content || confirm("Discard the current text?")) && load(null)}>
+          <FilePlus size={14} /> New
+        </ToolbarButton>
+        <ToolbarButton active={showOpen} onClick={() => setShowOpen(!showOpen)} disabled={!userPk}>
+          <FolderOpen size={14} /> Open...
+        </ToolbarButton>
+        <ToolbarButton active={false} onClick={() => saveMutation.mutate(DRAFT_KIND)} disabled={!canSave}>
+          <Save size={14} /> Save Draft
+        </ToolbarButton>
+        <ToolbarButton active={false} onClick={publish} disabled={!canSave}>
+          <Send size={14} /> Publish
+        </ToolbarButton>
+        <ToolbarButton active={showPreview} onClick={() => setShowPreview(!showPreview)}>
+          <Eye size={14} /> Preview
+        </ToolbarButton>
+        {showOpen && (
+          <div className="absolute top-full left-1 z-20 w-80 max-h-64 overflow-y-auto bg-white text-black border-2 border-outset border-gray-400 shadow-lg">
+            {isLoadingOwn ? (
+              <div className="p-2 text-gray-400 italic">Loading your articles...</div>
+            ) : ownArticles.length === 0 ? (
+              <div className="p-2 text-gray-400 italic">No articles or drafts yet.</div>
+            ) : ownArticles.map(article => (
+              <button 
+                key={`${article.kind}:${article.identifier}`}
+                onClick={() => load(article)}
+                className="w-full flex items-center gap-2 px-2 py-1 text-left hover:bg-[#000080] hover:text-white"
+              >
+                <span className={cn("px-1 text-[10px] border", article.kind === DRAFT_KIND ? "border-gray-400 text-gray-500" : "border-green-600 text-green-700")}>
+                  {article.kind === DRAFT_KIND ? "Draft" : "Published"}
+                </span>
+                <span className="truncate flex-grow">{article.title || article.identifier}</span>
+                <span className="text-[10px] text-gray-400">{new Date(article.event.created_at * 1000).toLocaleDateString()}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-[70px_1fr] items-center gap-1 p-2 bg-[#C0C0C0] text-black border-b border-gray-400">
+        <label>Title:</label>
+        <input value={fields.title} onChange={(e) => update({ title: e.target.value })} className={inputClass} />
+        <label>Summary:</label>
+        <input value={fields.summary} onChange={(e) => update({ summary: e.target.value })} className={inputClass} />
+        <label>Image URL:</label>
+        <input value={fields.image} onChange={(e) => update({ image: e.target.value })} placeholder="https://..." className={inputClass} />
+        <label>Tags:</label>
+        <input value={tagsInput} onChange={(e) => setTagsInput(e.target.value)} placeholder="nostr, essays" className={inputClass} />
+        <label title="Keeping the identifier is what makes a republish an edit">Identifier:</label>
+        <input 
+          value={fields.identifier} 
+          onChange={(e) => update({ identifier: e.target.value })} 
+          placeholder="From the title"
+          disabled={loaded?.kind === ARTICLE_KIND}
+          className={cn(inputClass, "disabled:bg-gray-200")}
+        />
+      </div>
+
+      {showPreview ? (
+        <div className={cn("flex-grow overflow-y-auto p-4", theme === 'dark' ? "bg-gray-900 text-gray-100" : "bg-white text-black")}>
+          {fields.image && <img src={fields.image} className="w-full max-h-40 object-cover rounded mb-2" referrerPolicy="no-referrer" />}
+          <h1 className="text-xl font-bold mb-2">{fields.title || "Untitled"}</h1>
+          <ArticleMarkdown content={fields.content} />
+        </div>
+      ) : (
+        <textarea 
+          value={fields.content}
+          onChange={(e) => update({ content: e.target.value })}
+          placeholder="Write in Markdown..."
+          className="flex-grow p-2 font-mono resize-none bg-white text-black outline-none"
+        />
+      )}
+
+      <div className="flex justify-between gap-2 px-2 py-0.5 bg-[#C0C0C0] text-black border-t border-gray-400">
+        <span className="truncate">
+          {saveMutation.isPending ? "Saving..." : !signer ? "Login to save drafts or publish." : status || "Ready"}
+        </span>
+        <span className="flex-shrink-0">
+          {loaded?.kind === ARTICLE_KIND ? "Published" : loaded?.kind === DRAFT_KIND ? "Draft" : "Unsaved"} · {fields.content.trim().split(/\s+/).filter(Boolean).length} words
+        </span>
+      </div>
+    </div>
+  );
+};
+
+// --- Messages App ---
+
+const MessagesApp = ({ pool, relays, userPk, signer, theme }: {
+  pool: SimplePool,
+  relays: string[],
+  userPk: string | null,
+  signer: Signer | null,
+  theme: 'light' | 'dark'
+}) => {
+  const [activePeer, setActivePeer] = usePersistentState<string | null>(userPk, 'messages.peer', null);
+  const [draft, setDraft] = usePersistentState(userPk, 'messages.draft', '');
+  const [newPeerInput, setNewPeerInput] = useState('');
+  const queryClient = useQueryClient();
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Gift wraps addressed to us, plus kind 4 both ways for the read-only legacy history
+  const { data: messages = [], isLoading, error } = useQuery({
+    queryKey: ['nostr_dms', userPk, relays],
+    queryFn: async () => {
+      const inbox = await fetchDmRelays(pool, relays, userPk!);
+      const [wraps, legacy] = await Promise.all([
+        pool.querySync(inbox, { kinds: [1059], '#p': [userPk!] }),
+        pool.querySync(relays, { kinds: [4], '#p': [userPk!] }).then(async received => 
+          [...received, ...await pool.querySync(relays, { kinds: [4], authors: [userPk!] })]
+        ),
+      ]);
+      const opened = await Promise.all([
+        ...wraps.map(w => unwrapDirectMessage(signer!, w, userPk!)),
+        ...legacy.map(e => decryptLegacyMessage(signer!, e, userPk!).catch(() => null)),
+      ]);
+      const unique: Record<string, DirectMessage> = {};
+      opened.forEach(m => { if (m) unique[m.id] = m; });
+      return Object.values(unique);
+    },
+    enabled: !!userPk && !!signer,
+    refetchInterval: 15000,
+  });
+
+  const conversations = groupConversations(messages);
+  const { data: metadata = {} } = useMetadata(pool, relays, Array.from(new Set([...conversations.map(c => c.peer), ...(activePeer ? [activePeer] : [])])));
+  const thread = conversations.find(c => c.peer === activePeer)?.messages ?? [];
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView();
+  }, [activePeer, thread.length]);
+
+  const sendMutation = useMutation({
+    mutationFn: async ({ peer, content }: { peer: string, content: string }) => {
+      if (!signer || !userPk) throw new Error("Login to send messages");
+      const { rumor, toRecipient, toSelf } = await createDirectMessageWraps(signer, peer, content);
+      const [peerInbox, ownInbox] = await Promise.all([
+        fetchDmRelays(pool, relays, peer),
+        fetchDmRelays(pool, relays, userPk),
+      ]);
+      await Promise.any(pool.publish(peerInbox, toRecipient));
+      await Promise.any(pool.publish(ownInbox, toSelf));
+      return { id: rumor.id, pubkey: userPk, peer, content, created_at: rumor.created_at, legacy: false } as DirectMessage;
+    },
+    onSuccess: (message) => {
+      queryClient.setQueryData(['nostr_dms', userPk, relays], (old: DirectMessage[] = []) => [...old, message]);
+      setDraft('');
+    },
+    onError: (e) => alert(e.message)
+  });
+
+  const startConversation = () => {
+    try {
+      const input = newPeerInput.trim();
+      const pubkey = input.startsWith('npub') ? nip19.decode(input).data as string : input;
+      if (!/^[0-9a-f]{64}$/.test(pubkey)) throw new Error();
+      setActivePeer(pubkey);
+      setNewPeerInput('');
+    } catch (e) {
+      alert("Enter a valid npub or hex public key");
+    }
+  };
+
+  const peerName = (pubkey: string) => 
+    metadata[pubkey]?.display_name || metadata[pubkey]?.name || nip19.npubEncode(pubkey).substring(0, 12) + '...';
+
+  if (!userPk || !signer) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-2 w-[560px] h-[420px] p-4 text-xs text-center">
+        <Lock size={32} className="text-gray-500" />
+        <p>{userPk ? "Unlock your key in Settings to read your messages." : "Log in from Settings to use Messages."}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex w-[560px] h-[420px]">
+      {/* Conversations */}
+      <div className="w-44 flex flex-col bg-[#C0C0C0] border-r border-gray-400 text-black">
+        <div className="flex gap-1 p-1 border-b border-gray-400">
+          <input 
+            value={newPeerInput}
+            onChange={(e) => setNewPeerInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && startConversation()}
+            placeholder="npub1..."
+            className="w-full p-1 text-[10px] border border-inset border-gray-400 bg-white"
+          />
+          <ToolbarButton active={false} onClick={startConversation}><Plus size={12} /></ToolbarButton>
+        </div>
+        <div className="flex-grow overflow-y-auto">
+          {isLoading && <div className="p-2 text-[10px] italic">Decrypting messages...</div>}
+          {error && <div className="p-2 text-[10px] text-red-700">{error.message}</div>}
+          {!isLoading && conversations.length === 0 && <div className="p-2 text-[10px] italic text-gray-600">No conversations yet.</div>}
+          {conversations.map(({ peer, messages: convo }) => (
+            <button 
+              key={peer}
+              onClick={() => setActivePeer(peer)}
+              className={cn(
+                "w-full flex flex-col items-start p-1.5 text-left border-b border-gray-400",
+                activePeer === peer ? "bg-[#000080] text-white" : "hover:bg-gray-300"
+              )}
+            >
+              <span className="w-full text-xs font-bold truncate">{peerName(peer)}</span>
+              <span className="w-full text-[10px] truncate opacity-75">{convo[convo.length - 1].content}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Conversation */}
+      <div className="flex-grow flex flex-col overflow-hidden">
+        {activePeer ? (
+          <>
+            <div className="p-1.5 text-xs font-bold border-b border-gray-400 bg-gray-100 dark:bg-gray-800 truncate">{peerName(activePeer)}</div>
+            <div className="flex-grow overflow-y-auto p-2 flex flex-col gap-1.5">
+              {thread.map(m => (
+                <div key={m.id} className={cn("max-w-[80%] flex flex-col", m.pubkey === userPk ? "self-end items-end" : "self-start items-start")}>
+                  <div className={cn(
+                    "px-2 py-1 text-xs whitespace-pre-wrap break-words border border-gray-400",
+                    m.pubkey === userPk ? "bg-[#000080] text-white" : (theme === 'dark' ? "bg-gray-700" : "bg-gray-100")
+                  )}>
+                    {m.content}
+                  </div>
+                  <span className="text-[9px] text-gray-500">
+                    {new Date(m.created_at * 1000).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                    {m.legacy && " · NIP-04"}
+                  </span>
+                </div>
+              ))}
+              <div ref={bottomRef} />
+            </div>
+            <div className="flex gap-1 p-1 bg-[#C0C0C0] border-t border-gray-400 text-black">
+              <textarea 
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key !== 'Enter' || e.shiftKey) return;
+                  e.preventDefault();
+                  // A second Enter on a slow signer would wrap and publish the same message twice
+                  if (draft.trim() && !sendMutation.isPending) sendMutation.mutate({ peer: activePeer, content: draft });
+                }}
+                placeholder="Write a private message..."
+                className="flex-grow h-12 p-1 text-xs border border-inset border-gray-400 bg-white resize-none outline-none"
+              />
+              <ToolbarButton 
+                active={false} 
+                disabled={!draft.trim() || sendMutation.isPending} 
+                onClick={() => sendMutation.mutate({ peer: activePeer, content: draft })}
+              >
+                <Send size={12} /> {sendMutation.isPending ? "..." : "Send"}
+              </ToolbarButton>
+            </div>
+          </>
+        ) : (
+          <div className="flex-grow flex flex-col items-center justify-center gap-2 text-xs text-gray-500">
+            <Mail size={32} />
+            <p>Select a conversation or start a new one.</p>
+            <p className="text-[10px]">Messages are end-to-end encrypted (NIP-17).</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- Notifications App ---
+
+const NOTIFICATION_TABS: { type: NotificationType | 'all', label: string, icon: React.ReactNode }[] = [
+  { type: 'all', label: "All", icon: <Bell size={12} /> },
+  { type: 'mention', label: "Mentions", icon: <User size={12} /> },
+  { type: 'reply', label: "Replies", icon: <MessageSquare size={12} /> },
+  { type: 'reaction', label: "Reactions", icon: <Heart size={12} /> },
+  { type: 'repost', label: "Reposts", icon: <RefreshCw size={12} /> },
+  { type: 'zap', label: "Zaps", icon: <Zap size={12} /> },
+];
+
+const NotificationsApp = ({ pool, relays, userPk, notifications, readState, onReadStateChange, browserAlerts, setBrowserAlerts, onNavigate, theme }: {
+  pool: SimplePool,
+  relays: string[],
+  userPk: string | null,
+  notifications: NostrNotification[],
+  readState: ReadState,
+  onReadStateChange: (state: ReadState) => void,
+  browserAlerts: boolean,
+  setBrowserAlerts: (enabled: boolean) => void,
+  onNavigate: (route: NostalgiaRoute) => void,
+  theme: 'light' | 'dark'
+}) => {
+  const [tab, setTab] = useState<NotificationType | 'all'>('all');
+  const shown = tab === 'all' ? notifications : notifications.filter(n => n.type === tab);
+  const { data: metadata = {} } = useMetadata(pool, relays, Array.from(new Set(shown.map(n => n.actor))));
+
+  const markRead = (notification: NostrNotification) => {
+    if (isUnread(notification, readState)) onReadStateChange({ ...readState, ids: [...readState.ids, notification.id] });
+  };
+
+  const markAllRead = () => onReadStateChange({ readAt: Math.floor(Date.now() / 1000), ids: [] });
+
+  // Reactions, reposts and zaps point at our own note, which is what gets opened
+  const open = async (notification: NostrNotification) => {
+    markRead(notification);
+    if (notification.type === 'mention' || notification.type === 'reply') {
+      onNavigate({ type: 'thread', event: notification.event });
+      return;
+    }
+    if (!notification.targetId) return;
+    const target = await pool.get(relays, { ids: [notification.targetId] });
+    if (target) onNavigate({ type: 'thread', event: target });
+  };
+
+  const toggleBrowserAlerts = async (enabled: boolean) => {
+    if (enabled && 'Notification' in window && Notification.permission !== 'granted') {
+      if (await Notification.requestPermission() !== 'granted') {
+        alert("Desktop alerts were blocked by the browser.");
+        return;
+      }
+    }
+    setBrowserAlerts(enabled);
+  };
+
+  if (!userPk) {
+    return <div className="flex items-center justify-center w-[480px] h-[400px] text-xs text-gray-400 italic">Login to see your notifications.</div>;
+  }
+
+  return (
+    <div className="flex flex-col w-[480px] h-[400px] text-xs">
+      <div className="flex flex-wrap gap-1 p-1 bg-[#C0C0C0] text-black border-b border-gray-400">
+        {NOTIFICATION_TABS.map(({ type, label, icon }) => {
+          const unread = notifications.filter(n => (type === 'all' || n.type === type) && isUnread(n, readState)).length;
+          return (
+            <ToolbarButton key={type} active={tab === type} onClick={() => setTab(type)}>
+              {icon} {label}{unread > 0 ? ` (${unread})` : ""}
+            </ToolbarButton>
+          );
+        })}
+      </div>
+
+      <div className="flex-grow overflow-y-auto">
+        {shown.length === 0 ? (
+          <div className="p-4 text-center text-gray-400 italic">Nothing here yet.</div>
+        ) : shown.map(n => {
+          const profile = metadata[n.actor];
+          const unread = isUnread(n, readState);
+          return (
+            <button 
+              key={n.id}
+              onClick={() => open(n)}
+              className={cn(
+                "w-full flex items-start gap-2 p-2 text-left border-b border-gray-100 dark:border-gray-800",
+                theme === 'dark' ? "hover:bg-white/5" : "hover:bg-black/5",
+                unread && (theme === 'dark' ? "bg-blue-900/30" : "bg-blue-50")
+              )}
+            >
+              <img src={profile?.picture || `https://robohash.org/${n.actor}?set=set4`} className="w-8 h-8 rounded-full border border-gray-200 flex-shrink-0" referrerPolicy="no-referrer" />
+              <div className="flex flex-col gap-0.5 overflow-hidden flex-grow">
+                <div className="flex justify-between gap-2 text-[10px]">
+                  <span className="truncate">
+                    <span className={cn("font-bold", unread && "text-blue-600 dark:text-blue-400")}>{profile?.name || profile?.display_name || n.actor.substring(0, 8)}</span>
+                    {" "}{describeNotification(n)}
+                  </span>
+                  <span className="text-gray-400 flex-shrink-0">{new Date(n.created_at * 1000).toLocaleString()}</span>
+                </div>
+                {(n.type === 'mention' || n.type === 'reply') && (
+                  <span className="text-gray-500 dark:text-gray-400 line-clamp-2 break-words">{n.event.content}</span>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 px-2 py-1 bg-[#C0C0C0] text-black border-t border-gray-400 text-[10px]">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={browserAlerts} onChange={(e) => toggleBrowserAlerts(e.target.checked)} />
+          Desktop alerts while Nostalgia is in the background
+        </label>
+        <button 
+          onClick={markAllRead}
+          className="px-2 py-0.5 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black font-bold active:border-t-2 active:border-l-2 active:border-black active:border-b active:border-r active:border-white"
+        >
+          Mark all read
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// --- Lists & Bookmarks App ---
+
+const ListsApp = ({ pool, relays, userPk, signer, onNavigate, theme }: {
+  pool: SimplePool,
+  relays: string[],
+  userPk: string | null,
+  signer: Signer | null,
+  onNavigate: (route: NostalgiaRoute) => void,
+  theme: 'light' | 'dark'
+}) => {
+  const [selected, setSelected] = useState<string | null>(null);
+  const [personInput, setPersonInput] = useState('');
+  const [isResolving, setIsResolving] = useState(false);
+  const { ids: bookmarkIds, toggle: toggleBookmark } = useBookmarks(pool, relays, userPk, signer);
+  const { sets, save, remove, isSaving } = useFollowSets(pool, relays, userPk, signer);
+  const set = sets.find(s => s.id === selected) ?? null;
+
+  const { data: bookmarks = [], isLoading: isLoadingBookmarks } = useQuery({
+    queryKey: ['nostr_bookmarked_notes', bookmarkIds, relays],
+    queryFn: async () => mergeTimeline(await pool.querySync(relays, { ids: bookmarkIds })),
+    enabled: !set && bookmarkIds.length > 0,
+  });
+  const shownPubkeys = set ? set.pubkeys : bookmarks.map(n => n.pubkey);
+  const { data: metadata = {} } = useMetadata(pool, relays, Array.from(new Set(shownPubkeys)));
+
+  const createList = () => {
+    const title = prompt("Name for the new list");
+    if (!title?.trim()) return;
+    const created = newFollowSet(title.trim());
+    save(created);
+    setSelected(created.id);
+  };
+
+  const renameList = () => {
+    const title = prompt("Rename list", set!.title);
+    if (title?.trim()) save({ ...set!, title: title.trim() });
+  };
+
+  const deleteList = () => {
+    if (!confirm(`Delete "${set!.title}"? This asks your relays to forget it.`)) return;
+    remove(set!);
+    setSelected(null);
+  };
+
+  // Accepts anything Find understands that points at a person
+  const addPerson = async () => {
+    setIsResolving(true);
+    try {
+      const target = await resolveIdentifier(personInput);
+      if (target?.type !== 'profile') throw new Error("Enter an npub, nprofile or name@domain address");
+      if (!set!.pubkeys.includes(target.pointer.pubkey)) save({ ...set!, pubkeys: [...set!.pubkeys, target.pointer.pubkey] });
+      setPersonInput('');
+    } catch (e: any) {
+      alert(e.message);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  if (!userPk) {
+    return <div className="flex items-center justify-center w-[560px] h-[400px] text-xs text-gray-400 italic">Login to keep bookmarks and lists.</div>;
+  }
+
+  const rowClass = cn("flex items-center gap-2 p-2 border-b border-gray-100 dark:border-gray-800", theme === 'dark' ? "hover:bg-white/5" : "hover:bg-black/5");
+
+  return (
+    <div className="flex w-[560px] h-[400px] text-xs">
+      {/* Folders */}
+      <div className="w-44 flex flex-col bg-[#C0C0C0] text-black border-r border-gray-400">
+        <div className="flex-grow overflow-y-auto p-1">
+          <button 
+            onClick={() => setSelected(null)}
+            className={cn("w-full flex items-center gap-2 px-2 py-1 text-left", !set && "bg-[#000080] text-white")}
+          >
+            <Bookmark size={14} /> Bookmarks ({bookmarkIds.length})
+          </button>
+          {sets.map(s => (
+            <button 
+              key={s.id}
+              onClick={() => setSelected(s.id)}
+              className={cn("w-full flex items-center gap-2 px-2 py-1 text-left", selected === s.id && "bg-[#000080] text-white")}
+            >
+              <List size={14} className="flex-shrink-0" /> <span className="truncate">{s.title} ({s.pubkeys.length})</span>
+            </button>
+          ))}
+        </div>
+        <div className="p-1 border-t border-gray-400">
+          <ToolbarButton active={false} onClick={createList} disabled={!signer || isSaving}>
+            <Plus size={14} /> New List
+          </ToolbarButton>
+        </div>
+      </div>
+
+      {/* Contents */}
+      <div className="flex-grow flex flex-col overflow-hidden">
+        {set ? (
+          <>
+            <div className="flex flex-wrap items-center gap-1 p-1 bg-[#C0C0C0] text-black border-b border-gray-400">
+              <span className="font-bold px-1 truncate flex-grow">{set.title}</span>
+              <ToolbarButton active={false} onClick={() => onNavigate({ type: 'list', id: set.id })}>
+                <Globe size={14} /> Open Feed
+              </ToolbarButton>
+              <ToolbarButton active={false} onClick={renameList} disabled={!signer || isSaving}>Rename</ToolbarButton>
+              <ToolbarButton active={false} onClick={deleteList} disabled={!signer || isSaving}>
+                <Trash2 size={14} />
+              </ToolbarButton>
+            </div>
+            <div className="flex gap-1 p-1 border-b border-gray-400">
+              <input 
+                value={personInput}
+                onChange={(e) => setPersonInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && personInput.trim() && addPerson()}
+                placeholder="npub... or name@domain"
+                className="flex-grow p-1 border border-inset border-gray-400 bg-white text-black outline-none"
+              />
+              <ToolbarButton active={false} onClick={addPerson} disabled={!personInput.trim() || isResolving || isSaving || !signer}>
+                <UserPlus size={14} /> Add
+              </ToolbarButton>
+            </div>
+            <div className="flex-grow overflow-y-auto">
+              {set.pubkeys.length === 0 ? (
+                <div className="p-4 text-center text-gray-400 italic">No one in this list yet.</div>
+              ) : set.pubkeys.map(pk => (
+                <div key={pk} className={rowClass}>
+                  <img src={metadata[pk]?.picture || `https://robohash.org/${pk}?set=set4`} className="w-6 h-6 rounded-full flex-shrink-0" referrerPolicy="no-referrer" />
+                  <button onClick={() => onNavigate({ type: 'profile', pubkey: pk })} className="flex-grow text-left truncate hover:underline">
+                    {metadata[pk]?.display_name || metadata[pk]?.name || nip19.npubEncode(pk).substring(0, 16)}
+                  </button>
+                  <button 
+                    onClick={() => save({ ...set, pubkeys: set.pubkeys.filter(p => p !== pk) })} 
+                    disabled={!signer || isSaving}
+                    title="Remove from list"
+                    className="text-gray-400 hover:text-red-500"
+                  >
+                    <UserMinus size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <div className="flex-grow overflow-y-auto">
+            {bookmarkIds.length === 0 ? (
+              <div className="p-4 text-center text-gray-400 italic">Use the bookmark button on a note to save it here.</div>
+            ) : isLoadingBookmarks ? (
+              <div className="p-4 text-center text-gray-400 italic">Loading bookmarks...</div>
+            ) : bookmarks.map(note => (
+              <div key={note.id} className={rowClass}>
+                <button onClick={() => onNavigate({ type: 'thread', event: note })} className="flex-grow flex flex-col gap-0.5 text-left overflow-hidden">
+                  <span className="text-[10px] font-bold text-blue-600 dark:text-blue-400 truncate">
+                    {metadata[note.pubkey]?.name || metadata[note.pubkey]?.display_name || note.pubkey.substring(0, 8)}
+                    <span className="font-normal text-gray-400"> · {new Date(note.created_at * 1000).toLocaleDateString()}</span>
+                  </span>
+                  <span className="line-clamp-2 break-words">{note.content}</span>
+                </button>
+                <button onClick={() => toggleBookmark(note)} title="Remove bookmark" className="flex-shrink-0 text-purple-500 hover:text-red-500">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- Media Manager ---
+
+interface UploadRow {
+  name: string;
+  progress: number;
+  error?: string;
+  report?: UploadReport;
+}
+
+const formatBytes = (size: number) =>
+  size < 1024 ? `${size} B` : size < 1048576 ? `${(size / 1024).toFixed(1)} KB` : `${(size / 1048576).toFixed(1)} MB`;
+
+const MediaApp = ({ pool, relays, userPk, signer, theme }: {
+  pool: SimplePool,
+  relays: string[],
+  userPk: string | null,
+  signer: Signer | null,
+  theme: 'light' | 'dark'
+}) => {
+  const queryClient = useQueryClient();
+  const [serverInput, setServerInput] = useState('');
+  const [uploads, setUploads] = useState<UploadRow[]>([]);
+  const [busyHash, setBusyHash] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { servers: listed, isFetched: serversFetched, isLoaded: serversLoaded, save: saveServers, isSaving } = useBlossomServers(pool, relays, userPk, signer);
+  // Until a kind 10063 list is published, the defaults are shown and saving one publishes them
+  const servers = listed.length > 0 ? listed : DEFAULT_BLOSSOM_SERVERS;
+  // Editing before the real list arrived would publish the defaults over it
+  const canEditServers = !!signer && serversLoaded && !isSaving;
+  const active = effectiveServers(listed);
+  const sign = (t: EventTemplate) => signEventTemplate(t, signer);
+
+  const { data: blobs = [], isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ['nostr_blobs', userPk, active],
+    queryFn: () => listAllBlobs(active, userPk!, sign),
+    enabled: !!userPk && !!signer,
+  });
+
+  const updateRow = (index: number, patch: Partial<UploadRow>) =>
+    setUploads(prev => prev.map((row, i) => i === index ? { ...row, ...patch } : row));
+
+  const upload = async (files: File[]) => {
+    const offset = uploads.length;
+    setUploads(prev => [...prev, ...files.map(f => ({ name: f.name, progress: 0 }))]);
+    for (const [i, file] of files.entries()) {
+      try {
+        const prepared = await prepareMedia(file);
+        if (!prepared) {
+          updateRow(offset + i, { error: "Skipped" });
+          continue;
+        }
+        const report = await uploadMedia({ file: prepared.file, servers: listed, sign, onProgress: (progress) => updateRow(offset + i, { progress }) });
+        updateRow(offset + i, { progress: 1, report });
+      } catch (e: any) {
+        updateRow(offset + i, { error: e.message });
+      }
+    }
+    queryClient.invalidateQueries({ queryKey: ['nostr_blobs'] });
+  };
+
+  const addServer = () => {
+    const server = normalizeServer(serverInput);
+    if (!servers.includes(server)) saveServers([...servers, server]);
+    setServerInput('');
+  };
+
+  const makePrimary = (server: string) => saveServers([server, ...servers.filter(s => s !== server)]);
+
+  const mirror = async (blob: StoredBlob) => {
+    setBusyHash(blob.sha256);
+    try {
+      const results = await mirrorToServers(blob, active.filter(s => !blob.servers.includes(s)), sign);
+      const failed = results.filter(r => !r.ok);
+      if (failed.length > 0) alert(`Mirroring failed on ${failed.map(r => `${r.server} (${r.error})`).join(', ')}`);
+      refetch();
+    } catch (e: any) {
+      alert(e.message);
+    } finally {
+      setBusyHash(null);
+    }
+  };
+
+  const remove = async (blob: StoredBlob) => {
+    if (!confirm(`Delete this file from ${blob.servers.length} server(s)? Notes that use it will show a broken link.`)) return;
+    setBusyHash(blob.sha256);
+    try {
+      const failed = (await deleteBlob(blob, sign)).filter(r => !r.ok);
+      if (failed.length > 0) alert(`Could not delete from ${failed.map(r => `${r.server} (${r.error})`).join(', ')}`);
+      refetch();
+    } catch (e: any) {
+      alert(e.message);
+    } finally {
+      setBusyHash(null);
+    }
+  };
+
+  if (!userPk) {
+    return <div className="flex items-center justify-center w-[600px] h-[420px] text-xs text-gray-400 italic">Login to manage your media.</div>;
+  }
+
+  const rowClass = cn("flex items-center gap-2 p-1 border-b border-gray-100 dark:border-gray-800", theme === 'dark' ? "hover:bg-white/5" : "hover:bg-black/5");
+
+  return (
+    <div className="flex w-[600px] h-[420px] text-xs">
+      {/* Servers */}
+      <div className="w-48 flex flex-col bg-[#C0C0C0] text-black border-r border-gray-400">
+        <div className="px-2 py-1 font-bold border-b border-gray-400">Servers</div>
+        <div className="flex-grow overflow-y-auto p-1">
+          {servers.map((server, i) => (
+            <div key={server} className="flex items-center gap-1 px-1 py-0.5 group">
+              <HardDrive size={12} className="flex-shrink-0" />
+              <span className={cn("truncate flex-grow", i === 0 && "font-bold")} title={server}>{server.replace(/^https?:\/\//, '')}</span>
+              {i > 0 && (
+                <button onClick={() => makePrimary(server)} disabled={!canEditServers} title="Upload here first" className="opacity-0 group-hover:opacity-100">
+                  <ArrowUp size={12} />
+                </button>
+              )}
+              <button 
+                onClick={() => saveServers(servers.filter(s => s !== server))} 
+                disabled={!canEditServers || servers.length === 1} 
+                title="Remove server"
+                className="opacity-0 group-hover:opacity-100 hover:text-red-600"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+          {!serversLoaded ? (
+            <p className={cn("px-1 mt-1 text-[10px] italic", serversFetched ? "text-red-700" : "text-gray-600")}>
+              {serversFetched ? "Your server list could not be loaded, so it cannot be edited." : "Loading your server list..."}
+            </p>
+          ) : listed.length === 0 && (
+            <p className="px-1 mt-1 text-[10px] text-gray-600 italic">Using the default servers. Any change publishes your own list.</p>
+          )}
+          {active !== listed && active !== DEFAULT_BLOSSOM_SERVERS && (
+            <p className="px-1 mt-1 text-[10px] text-red-700">Overridden: using {active.join(', ')}</p>
+          )}
+        </div>
+        <div className="flex gap-1 p-1 border-t border-gray-400">
+          <input 
+            value={serverInput}
+            onChange={(e) => setServerInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && serverInput.trim() && canEditServers && addServer()}
+            placeholder="blossom.example.com"
+            className="flex-grow min-w-0 p-1 border border-inset border-gray-400 bg-white text-black outline-none"
+          />
+          <ToolbarButton active={false} onClick={addServer} disabled={!serverInput.trim() || !canEditServers}>
+            <Plus size={14} />
+          </ToolbarButton>
+        </div>
+      </div>
+
+      {/* Blobs */}
+      <div className="flex-grow flex flex-col overflow-hidden">
+        <div className="flex items-center gap-1 p-1 bg-[#C0C0C0] text-black border-b border-gray-400">
+          <ToolbarButton active={false} onClick={() => fileInputRef.current?.click()} disabled={!signer}>
+            <Upload size={14} /> Upload...
+          </ToolbarButton>
+          <ToolbarButton active={false} onClick={() => refetch()} disabled={!signer || isFetching}>
+            <RefreshCw size={14} className={cn(isFetching && "animate-spin")} /> Refresh
+          </ToolbarButton>
+          <input 
+            type="file" 
+            ref={fileInputRef} 
+            className="hidden" 
+            multiple
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? []);
+              e.target.value = '';
+              if (files.length > 0) upload(files);
+            }}
+          />
+        </div>
+
+        {uploads.length > 0 && (
+          <div className="max-h-28 overflow-y-auto border-b border-gray-400">
+            {uploads.map((row, i) => (
+              <div key={i} className="flex items-center gap-2 px-2 py-0.5">
+                <span className="w-32 truncate" title={row.name}>{row.name}</span>
+                {row.error ? (
+                  <span className="flex-grow truncate text-red-600" title={row.error}>{row.error}</span>
+                ) : row.report ? (
+                  <span className="flex-grow truncate" title={row.report.results.map(r => `${r.server}: ${r.ok ? "ok" : r.error}`).join('\n')}>
+                    Stored on {row.report.results.filter(r => r.ok).length}/{row.report.results.length} servers
+                  </span>
+                ) : (
+                  <div className="flex-grow h-3 border border-gray-400 bg-white">
+                    <div className="h-full bg-[#000080]" style={{ width: `${Math.round(row.progress * 100)}%` }} />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-grow overflow-y-auto">
+          {!signer ? (
+            <div className="p-4 text-center text-gray-400 italic">Your login cannot sign, so media cannot be listed.</div>
+          ) : isLoading ? (
+            <div className="p-4 text-center text-gray-400 italic">Asking {active.length} servers for your files...</div>
+          ) : error ? (
+            <div className="p-4 text-center text-red-600">{(error as Error).message}</div>
+          ) : blobs.length === 0 ? (
+            <div className="p-4 text-center text-gray-400 italic">No files uploaded yet.</div>
+          ) : blobs.map(blob => (
+            <div key={blob.sha256} className={rowClass}>
+              {blob.type?.startsWith('image/') ? (
+                <img src={blob.url} className="w-8 h-8 object-cover border border-gray-400 flex-shrink-0" referrerPolicy="no-referrer" loading="lazy" />
+              ) : (
+                <FileText size={16} className="m-2 flex-shrink-0" />
+              )}
+              <div className="flex-grow flex flex-col overflow-hidden">
+                <a href={blob.url} target="_blank" rel="noopener noreferrer" className="truncate hover:underline font-mono">{blob.sha256.substring(0, 16)}...</a>
+                <span className="text-[10px] text-gray-400">
+                  {blob.type || "unknown"} · {formatBytes(blob.size)} · {new Date(blob.uploaded * 1000).toLocaleDateString()}
+                </span>
+              </div>
+              <span className={cn("flex-shrink-0 text-[10px]", blob.servers.length < active.length && "text-orange-600")} title={blob.servers.join('\n')}>
+                {blob.servers.length}/{active.length}
+              </span>
+              {blob.servers.length < active.length && (
+                <button onClick={() => mirror(blob)} disabled={busyHash === blob.sha256} title="Mirror to the other servers" className="text-gray-400 hover:text-blue-500">
+                  <RefreshCw size={12} />
+                </button>
+              )}
+              <button onClick={() => navigator.clipboard.writeText(blob.url)} title="Copy URL" className="text-gray-400 hover:text-blue-500">
+                <Copy size={12} />
+              </button>
+              <button onClick={() => remove(blob)} disabled={busyHash === blob.sha256} title="Delete from all servers" className="text-gray-400 hover:text-red-500">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Find App ---
+
+interface SearchResults {
+  notes: NostrEvent[];
+  people: string[];
+  /** Where the results came from, shown in the status bar */
+  source: 'identifier' | 'relays' | 'cache';
+}
+
+const FindApp = ({ pool, relays, searchRelays, onNavigate, theme }: {
+  pool: SimplePool,
+  relays: string[],
+  searchRelays: string[],
+  onNavigate: (route: NostalgiaRoute) => void,
+  theme: 'light' | 'dark'
+}) => {
+  const [input, setInput] = useState('');
+  const [term, setTerm] = useState('');
+  const [tab, setTab] = useState<'notes' | 'people'>('notes');
+
+  // Relays we already use count as search relays when their NIP-11 document lists NIP-50
+  const relayInfo = useQueries({
+    queries: relays.map(url => ({
+      queryKey: ['nostr_relay_info', url],
+      queryFn: () => nip11.fetchRelayInformation(url),
+      staleTime: 3600000,
+      retry: false,
+    })),
+  });
+  const advertised = relays.filter((_, i) => relayInfo[i]?.data?.supported_nips?.includes(50));
+  const targets = Array.from(new Set([...searchRelays, ...advertised]));
+
+  const { data: results, isFetching } = useQuery({
+    queryKey: ['nostr_search', term, targets],
+    queryFn: async (): Promise<SearchResults> => {
+      const target = await resolveIdentifier(term);
+      if (target?.type === 'profile') return { notes: [], people: [target.pointer.pubkey], source: 'identifier' };
+      if (target) {
+        const { pointer } = target;
+        const hints = (pointer.relays ?? []).filter(Boolean);
+        const event = await pool.get(
+          Array.from(new Set([...hints, ...relays])),
+          'identifier' in pointer ? { kinds: [pointer.kind], authors: [pointer.pubkey], '#d': [pointer.identifier] } : { ids: [pointer.id] }
+        );
+        return { notes: event ? [event] : [], people: [], source: 'identifier' };
+      }
+
+      const [notes, profiles] = await Promise.all([
+        searchEvents(pool, targets, { kinds: [1], search: term, limit: 50 }),
+        searchEvents(pool, targets, { kinds: [0], search: term, limit: 30 }),
+      ]);
+      return {
+        notes: notes.sort((a, b) => b.created_at - a.created_at),
+        people: Array.from(new Set(profiles.map(e => e.pubkey))),
+        source: targets.length > 0 ? 'relays' : 'cache',
+      };
+    },
+    enabled: term.length > 0,
+    staleTime: 60000,
+  });
+
+  const notes = results?.notes ?? [];
+  const people = results?.people ?? [];
+  const { data: metadata = {} } = useMetadata(pool, relays, Array.from(new Set([...people, ...notes.map(n => n.pubkey)])));
+
+  // Pasted identifiers jump straight to the tab that has the answer
+  useEffect(() => {
+    if (results?.source === 'identifier') setTab(results.people.length > 0 ? 'people' : 'notes');
+  }, [results]);
+
+  const find = (e: React.FormEvent) => {
+    e.preventDefault();
+    setTerm(input.trim());
+  };
+
+  return (
+    <div className="flex flex-col w-[520px] h-[420px] text-xs">
+      <form onSubmit={find} className="flex items-center gap-2 p-2 bg-[#C0C0C0] text-black border-b border-gray-400">
+        <label className="font-bold flex-shrink-0">Named:</label>
+        <input 
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Words, npub, nevent or name@domain"
+          autoFocus
+          className="flex-grow p-1 border border-inset border-gray-400 bg-white outline-none"
+        />
+        <button 
+          type="submit"
+          disabled={!input.trim() || isFetching}
+          className="px-3 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black font-bold active:border-t-2 active:border-l-2 active:border-black active:border-b active:border-r active:border-white disabled:opacity-50"
+        >
+          {isFetching ? "Searching..." : "Find Now"}
+        </button>
+      </form>
+
+      <div className="flex gap-1 px-2 pt-1 bg-[#C0C0C0] text-black">
+        <ToolbarButton active={tab === 'notes'} onClick={() => setTab('notes')}>
+          <FileText size={14} /> Notes ({notes.length})
+        </ToolbarButton>
+        <ToolbarButton active={tab === 'people'} onClick={() => setTab('people')}>
+          <Users size={14} /> People ({people.length})
+        </ToolbarButton>
+      </div>
+
+      <div className="flex-grow overflow-y-auto border-t border-gray-400">
+        {!term ? (
+          <div className="p-4 text-center text-gray-400 italic">Type something to look for and press Find Now.</div>
+        ) : isFetching && !results ? (
+          <div className="p-4 text-center text-gray-400 italic">Searching...</div>
+        ) : tab === 'notes' ? (
+          notes.length === 0 ? (
+            <div className="p-4 text-center text-gray-400 italic">No notes found.</div>
+          ) : notes.map(note => (
+            <div 
+              key={note.id}
+              onClick={(e) => {
+                if ((e.target as HTMLElement).closest('a, button, video, audio')) return;
+                onNavigate({ type: 'thread', event: note });
+              }}
+              className={cn("flex flex-col gap-1 p-2 border-b border-gray-100 dark:border-gray-800 cursor-pointer", theme === 'dark' ? "hover:bg-white/5" : "hover:bg-black/5")}
+            >
+              <div className="flex justify-between text-[10px] text-gray-400">
+                <button onClick={() => onNavigate({ type: 'profile', pubkey: note.pubkey })} className="font-bold text-blue-600 dark:text-blue-400 hover:underline truncate">
+                  {metadata[note.pubkey]?.name || metadata[note.pubkey]?.display_name || note.pubkey.substring(0, 8)}
+                </button>
+                <span className="flex-shrink-0">{new Date(note.created_at * 1000).toLocaleString()}</span>
+              </div>
+              <div className="max-h-32 overflow-hidden">
+                <NoteContent pool={pool} relays={relays} note={note} />
+              </div>
+            </div>
+          ))
+        ) : people.length === 0 ? (
+          <div className="p-4 text-center text-gray-400 italic">No people found.</div>
+        ) : people.map(pubkey => {
+          const profile = metadata[pubkey] ?? {};
+          return (
+            <button 
+              key={pubkey}
+              onClick={() => onNavigate({ type: 'profile', pubkey })}
+              className={cn("w-full flex items-center gap-2 p-2 text-left border-b border-gray-100 dark:border-gray-800", theme === 'dark' ? "hover:bg-white/5" : "hover:bg-black/5")}
+            >
+              <img src={profile.picture || `https://robohash.org/${pubkey}?set=set4`} className="w-8 h-8 rounded-full border border-gray-200 flex-shrink-0" referrerPolicy="no-referrer" />
+              <div className="flex flex-col overflow-hidden">
+                <span className="font-bold truncate">{profile.display_name || profile.name || pubkey.substring(0, 8)}</span>
+                <span className="text-[10px] text-gray-400 truncate">{profile.nip05 || nip19.npubEncode(pubkey)}</span>
+                {profile.about && <span className="text-[10px] text-gray-500 truncate">{profile.about}</span>}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="px-2 py-0.5 bg-[#C0C0C0] text-black text-[10px] border-t border-gray-400">
+        {!results ? (targets.length > 0 ? `${targets.length} search relays` : "Cached notes only") 
+          : results.source === 'cache' ? "Searched notes cached on this computer (no search relays configured)" 
+          : results.source === 'relays' ? `Searched ${targets.length} relays` 
+          : "Resolved identifier"}
+      </div>
+    </div>
+  );
+};
+
+// --- Network Neighborhood ---
+
+const RELAY_STATE_COLORS: Record<RelayStats['state'], string> = {
+  idle: 'bg-gray-400',
+  connecting: 'bg-yellow-500',
+  connected: 'bg-green-500',
+  disconnected: 'bg-gray-600',
+  error: 'bg-red-500',
+};
+
+const NetworkNeighborhoodApp = ({ pool, relays, disabledRelays, setDisabledRelays, theme }: {
+  pool: SimplePool,
+  relays: string[],
+  disabledRelays: string[],
+  setDisabledRelays: (relays: string[]) => void,
+  theme: 'light' | 'dark'
+}) => {
+  const stats = useRelayStats();
+  const [selected, setSelected] = useState<string | null>(null);
+  const [isProbing, setIsProbing] = useState(false);
+
+  const relayInfo = useQueries({
+    queries: relays.map(url => ({
+      queryKey: ['nostr_relay_info', url],
+      queryFn: () => nip11.fetchRelayInformation(url),
+      staleTime: 3600000,
+      retry: false,
+    })),
+  });
+  const infoFor = (url: string) => relayInfo[relays.indexOf(url)]?.data;
+
+  const enabledRelays = relays.filter(r => !disabledRelays.includes(r));
+  const unhealthy = enabledRelays.filter(r => isRelayUnhealthy(statsFor(stats, r)));
+
+  const probeAll = async () => {
+    setIsProbing(true);
+    await Promise.all(enabledRelays.map(r => probeRelay(pool, r)));
+    setIsProbing(false);
+  };
+
+  useEffect(() => {
+    probeAll();
+  }, []);
+
+  const toggleRelay = (url: string) => 
+    setDisabledRelays(disabledRelays.includes(url) ? disabledRelays.filter(r => r !== url) : [...disabledRelays, url]);
+
+  const selectedInfo = selected ? infoFor(selected) : undefined;
+  const selectedStats = selected ? statsFor(stats, selected) : undefined;
+
   return (
-    <div className="flex flex-col h-full">
-      {/* Toolbar */}
+    <div className="flex flex-col w-[640px] h-[440px] text-xs">
       <div className="flex items-center gap-1 p-1 bg-[#C0C0C0] border-b border-gray-400 text-black">
-        <ToolbarButton active={activeTab === 'feed'} onClick={() => setActiveTab('feed')}>
-          <Globe size={14} /> Global Feed
-        </ToolbarButton>
-        <ToolbarButton active={activeTab === 'profile'} onClick={() => setActiveTab('profile')}>
-          <User size={14} /> Profile
+        <ToolbarButton active={false} onClick={probeAll} disabled={isProbing}>
+          <RefreshCw size={12} className={cn(isProbing && "animate-spin")} /> {isProbing ? "Pinging..." : "Refresh"}
         </ToolbarButton>
-        <div className="ml-auto flex items-center gap-2 px-2 text-[10px] font-mono">
-          <div className={cn("w-2 h-2 rounded-full", relays.length > 0 ? "bg-green-500" : "bg-red-500")} />
-          {relays.length} Relays
-        </div>
+        <span className="ml-auto px-2 text-[10px]">
+          {enabledRelays.filter(r => statsFor(stats, r).state === 'connected').length} of {enabledRelays.length} relays online
+        </span>
       </div>
 
-      <div className="flex flex-grow overflow-hidden">
-        {/* Sidebar */}
-        <div className="w-48 bg-[#C0C0C0] border-r border-gray-400 p-2 flex flex-col gap-4 text-black overflow-y-auto">
-          <div className="flex flex-col gap-1">
-            <label className="text-[10px] font-bold uppercase text-gray-600">Post Note</label>
-            <textarea 
-              value={postContent}
-              onChange={(e) => setPostContent(e.target.value)}
-              placeholder="What's happening?"
-              className="w-full h-24 p-1 text-xs border border-inset border-gray-400 bg-white resize-none outline-none focus:ring-1 focus:ring-blue-500"
-            />
-            
-            {/* Attachments Preview */}
-            {attachments.length > 0 && (
-              <div className="flex flex-wrap gap-1 mt-1">
-                {attachments.map((url, idx) => (
-                  <div key={idx} className="relative group">
-                    <img src={url} className="w-10 h-10 object-cover border border-gray-400" />
-                    <button 
-                      onClick={() => setAttachments(prev => prev.filter((_, i) => i !== idx))}
-                      className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
-                    >
-                      <X size={8} />
-                    </button>
-                  </div>
-                ))}
-              </div>
-            )}
-
-            <div className="flex gap-1 mt-1">
-              <button 
-                onClick={() => fileInputRef.current?.click()}
-                disabled={isUploading}
-                className="flex-grow px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-[10px] font-bold active:border-t-2 active:border-l-2 active:border-black active:border-b active:border-r active:border-white disabled:opacity-50"
-              >
-                {isUploading ? "..." : "Attach Media"}
-              </button>
-              <input 
-                type="file" 
-                ref={fileInputRef} 
-                className="hidden" 
-                accept="image/*,video/*"
-                onChange={(e) => {
-                  const file = e.target.files?.[0];
-                  if (file) uploadToBlossom(file);
-                }}
-              />
-            </div>
+      {unhealthy.length > 0 && (
+        <div className="flex items-center gap-2 p-1.5 bg-yellow-100 text-black border-b border-gray-400">
+          <span className="flex-grow">{unhealthy.length} {unhealthy.length === 1 ? "relay is" : "relays are"} slow or not responding.</span>
+          <ToolbarButton active={false} onClick={() => setDisabledRelays([...disabledRelays, ...unhealthy])}>
+            Disable {unhealthy.length === 1 ? "it" : "them"}
+          </ToolbarButton>
+        </div>
+      )}
 
-            <button 
-              disabled={!userPk || publishMutation.isPending || (!postContent.trim() && attachments.length === 0)}
-              onClick={() => publishMutation.mutate(postContent)}
-              className="mt-1 px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold active:border-t-2 active:border-l-2 active:border-black active:border-b active:border-r active:border-white disabled:opacity-50"
-            >
-              {publishMutation.isPending ? "Sending..." : "Post Note"}
-            </button>
-            {!userPk && <p className="text-[9px] text-red-600 mt-1">Login to post notes</p>}
-          </div>
+      <div className="flex-grow overflow-y-auto">
+        <table className="w-full text-[10px] border-collapse">
+          <thead className="sticky top-0 bg-[#C0C0C0] text-black">
+            <tr className="text-left">
+              <th className="p-1 w-6" title="Enabled">On</th>
+              <th className="p-1">Relay</th>
+              <th className="p-1 text-right">Ping</th>
+              <th className="p-1 text-right">Events</th>
+              <th className="p-1 text-right">Published</th>
+              <th className="p-1">Last error</th>
+            </tr>
+          </thead>
+          <tbody>
+            {relays.map(url => {
+              const relay = statsFor(stats, url);
+              const isDisabled = disabledRelays.includes(url);
+              return (
+                <tr 
+                  key={url} 
+                  onClick={() => setSelected(url)}
+                  className={cn(
+                    "cursor-default border-b border-gray-200 dark:border-gray-700",
+                    selected === url ? "bg-[#000080] text-white" : "hover:bg-gray-100 dark:hover:bg-gray-800",
+                    isDisabled && "opacity-50"
+                  )}
+                >
+                  <td className="p-1">
+                    <input type="checkbox" checked={!isDisabled} onChange={() => toggleRelay(url)} onClick={(e) => e.stopPropagation()} />
+                  </td>
+                  <td className="p-1 max-w-[200px]">
+                    <div className="flex items-center gap-1.5">
+                      <div className={cn("w-2 h-2 rounded-full flex-shrink-0", RELAY_STATE_COLORS[relay.state])} title={relay.state} />
+                      <div className="flex flex-col overflow-hidden">
+                        <span className="font-bold truncate">{infoFor(url)?.name || url.replace('wss://', '')}</span>
+                        <span className="truncate opacity-70">{url}</span>
+                      </div>
+                    </div>
+                  </td>
+                  <td className={cn("p-1 text-right font-mono", relay.latency !== undefined && isRelayUnhealthy(relay) && "text-red-600")}>
+                    {relay.latency !== undefined ? `${relay.latency} ms` : "-"}
+                  </td>
+                  <td className="p-1 text-right font-mono">{relay.eventsReceived}</td>
+                  <td className="p-1 text-right font-mono">
+                    {relay.publishOk} ok{relay.publishFailed > 0 && <span className="text-red-600"> / {relay.publishFailed} failed</span>}
+                  </td>
+                  <td className="p-1 max-w-[140px] truncate" title={relay.lastError}>{relay.lastError ?? ""}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
 
-          <div className="mt-auto p-2 border border-inset border-gray-400 bg-gray-200 text-[10px]">
-            <p className="font-bold">Nostalgia v1.0</p>
-            <p className="text-gray-600">The Cypherpunk OS</p>
+      {/* NIP-11 details */}
+      {selected && (
+        <div className={cn("h-32 flex-shrink-0 overflow-y-auto p-2 border-t-2 border-gray-400 flex flex-col gap-1", theme === 'dark' ? "bg-[#222]" : "bg-gray-50")}>
+          <div className="flex items-center gap-2">
+            <span className="font-bold">{selectedInfo?.name || selected}</span>
+            <span className="text-[10px] text-gray-500">{selectedStats?.state}</span>
+            <button onClick={() => setSelected(null)} className="ml-auto"><X size={10} /></button>
           </div>
-        </div>
-
-        {/* Feed */}
-        <div className="flex-grow overflow-y-auto p-2 bg-white dark:bg-[#1a1a1a]">
-          {isLoading ? (
-            <div className="flex items-center justify-center h-full text-gray-400 italic">
-              Connecting to relays...
-            </div>
+          {selectedInfo ? (
+            <>
+              {selectedInfo.description && <p className="text-[10px] whitespace-pre-wrap">{selectedInfo.description}</p>}
+              {selectedInfo.software && (
+                <span className="text-[10px]"><b>Software:</b> {selectedInfo.software} {selectedInfo.version}</span>
+              )}
+              {selectedInfo.supported_nips?.length > 0 && (
+                <span className="text-[10px]"><b>Supported NIPs:</b> {selectedInfo.supported_nips.join(', ')}</span>
+              )}
+              {selectedInfo.limitation && (
+                <span className="text-[10px]">
+                  <b>Limitations:</b> {Object.entries(selectedInfo.limitation).map(([k, v]) => `${k.replace(/_/g, ' ')}: ${v}`).join(' · ')}
+                </span>
+              )}
+            </>
           ) : (
-            <div className="flex flex-col gap-4">
-              {notes.map((note) => (
-                <Note key={note.id} note={note} theme={theme} metadata={metadata[note.pubkey]} />
-              ))}
-            </div>
+            <span className="text-[10px] italic text-gray-500">
+              {relayInfo[relays.indexOf(selected)]?.isLoading ? "Fetching relay information (NIP-11)..." : "This relay did not publish a NIP-11 information document."}
+            </span>
           )}
         </div>
-      </div>
+      )}
     </div>
   );
 };
 
-const Note = ({ note, theme, metadata }: { note: NostrEvent, theme: 'light' | 'dark', metadata?: any }) => {
-  const author = metadata?.name || metadata?.display_name || note.pubkey.substring(0, 8);
-  const avatar = metadata?.picture || `https://robohash.org/${note.pubkey}?set=set4`;
-  const date = new Date(note.created_at * 1000).toLocaleString();
+// --- Settings App ---
 
-  const handleZap = async () => {
-    if ((window as any).webln) {
-      try {
-        await (window as any).webln.enable();
-        const invoice = prompt("Enter Lightning Invoice to Zap (Integration coming soon)");
-        if (invoice) await (window as any).webln.sendPayment(invoice);
-      } catch (e: any) {
-        alert("WebLN Error: " + e.message);
-      }
-    } else {
-      alert("Please install a WebLN wallet (like Alby) to Zap!");
+type WizardStep = 'welcome' | 'keys' | 'backup' | 'profile' | 'relays' | 'finish';
+
+const WIZARD_STEPS: WizardStep[] = ['welcome', 'keys', 'backup', 'profile', 'relays', 'finish'];
+
+const WIZARD_PROFILE_FIELDS = PROFILE_FIELDS.filter(({ key }) => key === 'name' || key === 'about' || key === 'picture');
+
+// Walks a new user through key creation, backup, profile and relays, then publishes kinds 0 and 10002
+const NewConnectionWizard = ({ pool, relays, onComplete, onCancel }: {
+  pool: SimplePool,
+  relays: string[],
+  onComplete: (secretKey: Uint8Array, password: string, relays: string[]) => Promise<void>,
+  onCancel: () => void
+}) => {
+  const [step, setStep] = useState<WizardStep>('welcome');
+  const [secretKey, setSecretKey] = useState(() => generateSecretKey());
+  const [showNsec, setShowNsec] = useState(false);
+  const [backupInput, setBackupInput] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [profile, setProfile] = useState<Record<string, string>>({ name: '', about: '', picture: '' });
+  const [relayChoices, setRelayChoices] = useState<Record<string, boolean>>(() => 
+    Object.fromEntries(Array.from(new Set([...relays, ...DEFAULT_RELAYS])).map(r => [r, true]))
+  );
+  const [customRelay, setCustomRelay] = useState('');
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  const nsec = nip19.nsecEncode(secretKey);
+  const npub = nip19.npubEncode(getPublicKey(secretKey));
+  const selectedRelays = Object.keys(relayChoices).filter(r => relayChoices[r]);
+
+  const canContinue = {
+    welcome: true,
+    keys: true,
+    backup: backupInput.trim() === nsec && !!password && password === confirm,
+    profile: !!profile.name.trim(),
+    relays: selectedRelays.length > 0,
+    finish: !isPublishing,
+  }[step];
+
+  const go = (offset: number) => setStep(WIZARD_STEPS[WIZARD_STEPS.indexOf(step) + offset]);
+
+  const regenerate = () => {
+    setSecretKey(generateSecretKey());
+    setShowNsec(false);
+    setBackupInput('');
+  };
+
+  const addCustomRelay = () => {
+    try {
+      setRelayChoices({ ...relayChoices, [validateRelayUrl(customRelay)]: true });
+      setCustomRelay('');
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const finish = async () => {
+    setIsPublishing(true);
+    try {
+      const signer = createLocalSigner(secretKey);
+      const created_at = Math.floor(Date.now() / 1000);
+      const content = Object.fromEntries(Object.entries(profile).filter(([, v]) => v.trim()));
+      const metadata = await signer.signEvent({ kind: 0, created_at, tags: [], content: JSON.stringify(content) });
+      const relayList = await signer.signEvent(buildRelayListTemplate(selectedRelays, {}));
+
+      await Promise.any(pool.publish(selectedRelays, metadata));
+      await Promise.any(pool.publish(selectedRelays, relayList));
+      rememberRelayList(relayList);
+      await onComplete(secretKey, password, selectedRelays);
+      alert("Your identity is ready. Welcome to Nostr!");
+    } catch (e: any) {
+      alert(e instanceof AggregateError ? "No relay accepted your profile. Check your relay choices." : e.message);
+      setIsPublishing(false);
     }
   };
 
+  const inputClass = "p-1 text-xs border border-inset border-gray-400 bg-white text-black";
+
   return (
-    <div className={cn(
-      "p-3 border-b border-gray-100 dark:border-gray-800 flex gap-3",
-      theme === 'dark' ? "hover:bg-white/5" : "hover:bg-black/5"
-    )}>
-      <img src={avatar} className="w-10 h-10 rounded-full border border-gray-200 flex-shrink-0" referrerPolicy="no-referrer" />
-      
-      <div className="flex flex-col gap-1 flex-grow overflow-hidden">
-        <div className="flex justify-between items-center text-[10px]">
-          <span className="font-bold text-blue-600 dark:text-blue-400 truncate max-w-[150px]">
-            {author} {metadata?.nip05 && <span className="text-gray-400 font-normal">({metadata.nip05})</span>}
-          </span>
-          <span className="text-gray-400 flex-shrink-0">{date}</span>
+    <div className="absolute inset-0 z-[200] flex items-center justify-center bg-black/30">
+      <div className="w-[500px] flex flex-col border-t-2 border-l-2 border-white border-b-2 border-r-2 border-black bg-[#C0C0C0] shadow-2xl text-black">
+        <div className="h-6 flex items-center justify-between px-1 bg-[#000080] text-white select-none">
+          <span className="font-bold text-xs">New Connection Wizard</span>
+          <WindowButton onClick={onCancel}><X size={10} /></WindowButton>
         </div>
-        
-        <div className="text-sm leading-relaxed break-words prose dark:prose-invert max-w-none">
-          <ReactMarkdown 
-            remarkPlugins={[remarkGfm]}
-            components={{
-              a: ({ node, ...props }) => <a {...props} className="text-blue-500 hover:underline" target="_blank" rel="noopener noreferrer" />,
-              img: ({ node, ...props }) => <img {...props} className="max-w-full h-auto rounded border border-gray-200 my-2" referrerPolicy="no-referrer" />,
-            }}
-          >
-            {note.content}
-          </ReactMarkdown>
+        <div className="flex gap-3 p-3 h-[320px]">
+          <div className="w-28 flex-shrink-0 flex items-end justify-center pb-4 bg-[#008080] border-2 border-inset border-gray-400 text-white">
+            <Wand2 size={48} />
+          </div>
+          <div className="flex flex-col gap-2 flex-grow overflow-y-auto text-xs">
+            {step === 'welcome' && (
+              <>
+                <h3 className="font-bold text-sm">Welcome to the New Connection Wizard</h3>
+                <p>This wizard creates a new Nostr identity for you.</p>
+                <p>Your identity is a pair of keys. The public key (npub) is your address that others follow. The secret key (nsec) proves that you are you. Anyone who has it can post as you, and it cannot be reset if lost.</p>
+                <p>To continue, click Next.</p>
+              </>
+            )}
+            {step === 'keys' && (
+              <>
+                <h3 className="font-bold text-sm">Your New Keys</h3>
+                <label className="flex flex-col gap-0.5 font-bold">
+                  Public key (share this)
+                  <input readOnly value={npub} onFocus={(e) => e.target.select()} className={cn(inputClass, "font-mono text-[10px] font-normal")} />
+                </label>
+                <label className="flex flex-col gap-0.5 font-bold">
+                  Secret key (never share this)
+                  <input 
+                    readOnly 
+                    type={showNsec ? 'text' : 'password'} 
+                    value={nsec} 
+                    onFocus={(e) => e.target.select()} 
+                    className={cn(inputClass, "font-mono text-[10px] font-normal")} 
+                  />
+                </label>
+                <div className="flex gap-1">
+                  <ToolbarButton active={showNsec} onClick={() => setShowNsec(!showNsec)}>{showNsec ? "Hide" : "Show"}</ToolbarButton>
+                  <ToolbarButton active={false} onClick={() => navigator.clipboard.writeText(nsec)}>Copy nsec</ToolbarButton>
+                  <ToolbarButton active={false} onClick={regenerate}><RefreshCw size={12} /> Generate New</ToolbarButton>
+                </div>
+                <p className="text-gray-600">Write the secret key down or store it in a password manager before you continue.</p>
+              </>
+            )}
+            {step === 'backup' && (
+              <>
+                <h3 className="font-bold text-sm">Confirm Your Backup</h3>
+                <p>Paste the secret key you saved to confirm the backup works.</p>
+                <input 
+                  type="password" 
+                  value={backupInput} 
+                  onChange={(e) => setBackupInput(e.target.value)} 
+                  placeholder="nsec1..." 
+                  className={inputClass} 
+                />
+                {backupInput && backupInput.trim() !== nsec && <span className="text-red-700">That does not match your new secret key.</span>}
+                <p className="mt-2">Choose a password. It encrypts the key stored on this computer (NIP-49).</p>
+                <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Password" className={inputClass} />
+                <input type="password" value={confirm} onChange={(e) => setConfirm(e.target.value)} placeholder="Confirm password" className={inputClass} />
+              </>
+            )}
+            {step === 'profile' && (
+              <>
+                <h3 className="font-bold text-sm">Set Up Your Profile</h3>
+                {WIZARD_PROFILE_FIELDS.map(({ key, label }) => (
+                  <label key={key} className="flex flex-col gap-0.5 font-bold">
+                    {label}
+                    {key === 'about' ? (
+                      <textarea
+                        value={profile[key]}
+                        onChange={(e) => setProfile({ ...profile, [key]: e.target.value })}
+                        className={cn(inputClass, "h-16 font-normal resize-none outline-none")}
+                      />
+                    ) : (
+                      <input
+                        value={profile[key]}
+                        onChange={(e) => setProfile({ ...profile, [key]: e.target.value })}
+                        className={cn(inputClass, "font-normal outline-none")}
+                      />
+                    )}
+                  </label>
+                ))}
+              </>
+            )}
+            {step === 'relays' && (
+              <>
+                <h3 className="font-bold text-sm">Choose Your Relays</h3>
+                <p>Relays store and deliver your notes. Pick a few to start with.</p>
+                <div className="flex flex-col gap-0.5 max-h-36 overflow-y-auto border border-inset border-gray-400 bg-white p-1">
+                  {Object.keys(relayChoices).map(r => (
+                    <label key={r} className="flex items-center gap-2 text-[10px]">
+                      <input type="checkbox" checked={relayChoices[r]} onChange={(e) => setRelayChoices({ ...relayChoices, [r]: e.target.checked })} />
+                      <span className="truncate">{r}</span>
+                    </label>
+                  ))}
+                </div>
+                <div className="flex gap-1">
+                  <input value={customRelay} onChange={(e) => setCustomRelay(e.target.value)} placeholder="wss://..." className={cn(inputClass, "flex-grow")} />
+                  <ToolbarButton active={false} onClick={addCustomRelay}>Add</ToolbarButton>
+                </div>
+              </>
+            )}
+            {step === 'finish' && (
+              <>
+                <h3 className="font-bold text-sm">Completing the New Connection Wizard</h3>
+                <p>Click Finish to publish your profile and relay list and log in as:</p>
+                <div className="p-2 bg-white border border-inset border-gray-400">
+                  <div className="font-bold">{profile.name}</div>
+                  <div className="font-mono text-[10px] truncate">{npub}</div>
+                  <div className="text-[10px] text-gray-600">{selectedRelays.length} relays</div>
+                </div>
+              </>
+            )}
+          </div>
         </div>
-
-        <div className="flex gap-4 text-[10px] text-gray-400 mt-1">
-          <button onClick={handleZap} className="flex items-center gap-1 hover:text-orange-500">
-            <Zap size={12} /> Zap
-          </button>
-          <button className="flex items-center gap-1 hover:text-blue-500">
-            <MessageSquare size={12} /> Reply
-          </button>
-          <button className="flex items-center gap-1 hover:text-green-500">
-            <RefreshCw size={12} /> Repost
-          </button>
+        <div className="flex justify-end gap-1 p-2 border-t border-gray-500">
+          <ToolbarButton active={false} onClick={() => go(-1)} disabled={step === 'welcome' || isPublishing}>&lt; Back</ToolbarButton>
+          {step === 'finish' ? (
+            <ToolbarButton active={false} onClick={finish} disabled={!canContinue}>{isPublishing ? "Publishing..." : "Finish"}</ToolbarButton>
+          ) : (
+            <ToolbarButton active={false} onClick={() => go(1)} disabled={!canContinue}>Next &gt;</ToolbarButton>
+          )}
+          <ToolbarButton active={false} onClick={onCancel} disabled={isPublishing}>Cancel</ToolbarButton>
         </div>
       </div>
     </div>
   );
 };
 
-const ToolbarButton = ({ children, active, onClick }: { children: React.ReactNode, active: boolean, onClick: () => void }) => (
-  <button 
-    onClick={onClick}
-    className={cn(
-      "flex items-center gap-1 px-2 py-1 text-xs border-t border-l border-white border-b-2 border-r-2 border-black active:border-t-2 active:border-l-2 active:border-black active:border-b active:border-r active:border-white",
-      active && "bg-gray-300 border-t-2 border-l-2 border-black border-b border-r border-white"
-    )}
-  >
-    {children}
-  </button>
-);
-
-// --- Settings App ---
-
 const SettingsApp = ({ 
+  pool,
   relays, 
   setRelays, 
+  relayModes,
+  setRelayModes,
+  searchRelays,
+  setSearchRelays,
+  spamSettings,
+  setSpamSettings,
   theme, 
   setTheme, 
   userPk, 
+  signer,
+  isLocked,
+  lockMinutes,
+  setLockMinutes,
+  onLock,
+  onUnlock,
+  onCreateIdentity,
   loginWithSk, 
   loginWithExtension,
+  loginWithBunker,
+  loginWithNostrConnect,
   logout 
 }: { 
+  pool: SimplePool,
   relays: string[], 
   setRelays: (r: string[]) => void, 
+  relayModes: Record<string, RelayMode>,
+  setRelayModes: (modes: Record<string, RelayMode>) => void,
+  searchRelays: string[],
+  setSearchRelays: (relays: string[]) => void,
+  spamSettings: SpamSettings,
+  setSpamSettings: (settings: SpamSettings) => void,
   theme: 'light' | 'dark', 
   setTheme: (t: 'light' | 'dark') => void,
   userPk: string | null,
-  loginWithSk: (sk: string) => void,
+  signer: Signer | null,
+  isLocked: boolean,
+  lockMinutes: number,
+  setLockMinutes: (minutes: number) => void,
+  onLock: () => void,
+  onUnlock: () => void,
+  onCreateIdentity: () => void,
+  loginWithSk: (sk: string, password: string) => Promise<boolean>,
   loginWithExtension: () => void,
+  loginWithBunker: (uri: string) => Promise<void>,
+  loginWithNostrConnect: () => { uri: string, cancel: () => void },
   logout: () => void
 }) => {
   const [newRelay, setNewRelay] = useState('');
+  const [newSearchRelay, setNewSearchRelay] = useState('');
+  const [muteKind, setMuteKind] = useState<MuteKind>('word');
+  const [muteInput, setMuteInput] = useState('');
+  const [mutePrivately, setMutePrivately] = useState(false);
+  const { list: muteList, mute, isSaving: isSavingMutes } = useMuteList(pool, relays, userPk, signer);
   const [skInput, setSkInput] = useState('');
+  const [skPassword, setSkPassword] = useState('');
+  const [exportedKey, setExportedKey] = useState<string | null>(null);
+  const [bunkerInput, setBunkerInput] = useState('');
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [connectSession, setConnectSession] = useState<{ uri: string, cancel: () => void } | null>(null);
+  const [connectQr, setConnectQr] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!connectSession) return;
+    QRCode.toDataURL(connectSession.uri, { margin: 1, width: 200 }).then(setConnectQr);
+    return () => {
+      connectSession.cancel();
+      setConnectQr(null);
+    };
+  }, [connectSession]);
+
+  // The handshake finished elsewhere; drop the QR once we are logged in
+  useEffect(() => {
+    if (userPk) setConnectSession(null);
+    setExportedKey(null);
+  }, [userPk]);
+
+  const submitBunker = async () => {
+    setIsConnecting(true);
+    await loginWithBunker(bunkerInput);
+    setIsConnecting(false);
+    setBunkerInput('');
+  };
 
   const addRelay = () => {
-    if (newRelay && !relays.includes(newRelay)) {
-      setRelays([...relays, newRelay]);
+    try {
+      const url = validateRelayUrl(newRelay);
+      if (!relays.includes(url)) setRelays([...relays, url]);
       setNewRelay('');
+    } catch (e: any) {
+      alert(e.message);
     }
   };
 
@@ -741,25 +4718,55 @@ const SettingsApp = ({
     setRelays(relays.filter(r => r !== url));
   };
 
+  // People and threads can be pasted as npub / note codes as well as hex
+  const addMute = () => {
+    let value = muteInput.trim().replace(/^nostr:/, '');
+    try {
+      if (muteKind === 'pubkey' && value.startsWith('npub1')) value = nip19.decode(value as `npub1${string}`).data;
+      if (muteKind === 'thread' && value.startsWith('note1')) value = nip19.decode(value as `note1${string}`).data;
+    } catch (e) {
+      alert("That is not a valid npub or note identifier");
+      return;
+    }
+    if ((muteKind === 'pubkey' || muteKind === 'thread') && !/^[0-9a-f]{64}$/.test(value)) {
+      alert("Enter an npub, a note id or a 64-character hex id");
+      return;
+    }
+    mute({ kind: muteKind, value, isPrivate: mutePrivately });
+    setMuteInput('');
+  };
+
+  const muteRows = muteList ? (['public', 'private'] as const).flatMap(half => [
+    ...muteList[half].pubkeys.map(value => ({ kind: 'pubkey' as const, value, label: `${nip19.npubEncode(value).substring(0, 16)}…`, half })),
+    ...muteList[half].words.map(value => ({ kind: 'word' as const, value, label: `"${value}"`, half })),
+    ...muteList[half].hashtags.map(value => ({ kind: 'hashtag' as const, value, label: `#${value}`, half })),
+    ...muteList[half].threads.map(value => ({ kind: 'thread' as const, value, label: `Thread ${value.substring(0, 8)}`, half })),
+  ]) : [];
+
+  const addSearchRelay = () => {
+    try {
+      const url = validateRelayUrl(newSearchRelay);
+      if (!searchRelays.includes(url)) setSearchRelays([...searchRelays, url]);
+      setNewSearchRelay('');
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  // Read-write, then write only (outbox), then read only (inbox)
+  const cycleRelayMode = (url: string) => {
+    const next: Record<RelayMode, RelayMode> = { both: 'write', write: 'read', read: 'both' };
+    setRelayModes({ ...relayModes, [url]: next[relayModes[url] ?? 'both'] });
+  };
+
   const syncNip65 = async () => {
     if (!userPk) return;
     try {
-      const eventTemplate = {
-        kind: 10002,
-        created_at: Math.floor(Date.now() / 1000),
-        tags: relays.map(r => ['r', r]),
-        content: '',
-      };
-      
-      let event;
-      if ((window as any).nostr) {
-        event = await (window as any).nostr.signEvent(eventTemplate);
-      } else {
-        throw new Error("Login with extension to sync NIP-65");
-      }
+      const event = await signEventTemplate(buildRelayListTemplate(relays, relayModes), signer);
       
-      // Publish to all current relays
-      // await Promise.all(relays.map(r => pool.publish([r], event)));
+      // Relay lists are how others find us, so they go to every relay we know
+      await Promise.any(pool.publish(relays, event));
+      rememberRelayList(event);
       alert("NIP-65 Relay list published!");
     } catch (e: any) {
       alert(e.message);
@@ -779,6 +4786,67 @@ const SettingsApp = ({
               <ShieldCheck size={14} className="text-green-500" />
               <span className="font-mono truncate">Logged in: {userPk.substring(0, 16)}...</span>
             </div>
+            {signer && (
+              <span className="text-[10px] text-gray-500">
+                Signing with {signer.type === 'local' ? "local key" : signer.type === 'nip07' ? "browser extension (NIP-07)" : "remote signer (NIP-46)"}
+              </span>
+            )}
+            {isLocked && (
+              <div className="flex items-center gap-2 text-xs">
+                <Lock size={14} className="text-yellow-600" />
+                <span className="flex-grow">Key is locked. Browsing is read-only.</span>
+                <button 
+                  onClick={onUnlock}
+                  className="px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold text-black"
+                >
+                  Unlock
+                </button>
+              </div>
+            )}
+            {getStoredNcryptsec() && (
+              <>
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="flex-grow">Lock after idle:</span>
+                  <select 
+                    value={lockMinutes} 
+                    onChange={(e) => setLockMinutes(Number(e.target.value))}
+                    className="p-0.5 text-xs border border-inset border-gray-400 bg-white text-black"
+                  >
+                    <option value={5}>5 minutes</option>
+                    <option value={15}>15 minutes</option>
+                    <option value={30}>30 minutes</option>
+                    <option value={60}>1 hour</option>
+                    <option value={0}>Never</option>
+                  </select>
+                  {!isLocked && (
+                    <button 
+                      onClick={onLock}
+                      className="flex items-center gap-1 px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold text-black"
+                    >
+                      <Lock size={12} /> Lock Now
+                    </button>
+                  )}
+                </div>
+                {exportedKey ? (
+                  <div className="flex flex-col gap-1">
+                    <input 
+                      readOnly 
+                      value={exportedKey} 
+                      onFocus={(e) => e.target.select()}
+                      className="w-full p-1 text-[10px] font-mono border border-inset border-gray-400 bg-white text-black"
+                    />
+                    <span className="text-[10px] text-gray-500">Encrypted with your password (NIP-49). Keep a copy somewhere safe.</span>
+                  </div>
+                ) : (
+                  <button 
+                    onClick={() => setExportedKey(getStoredNcryptsec())}
+                    className="flex items-center justify-center gap-2 px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold text-black"
+                  >
+                    <Key size={14} /> Export Key (ncryptsec)
+                  </button>
+                )}
+              </>
+            )}
             <button 
               onClick={logout}
               className="px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold text-black"
@@ -788,17 +4856,34 @@ const SettingsApp = ({
           </div>
         ) : (
           <div className="flex flex-col gap-2">
+            <button 
+              onClick={onCreateIdentity}
+              className="flex items-center justify-center gap-2 px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold text-black"
+            >
+              <Wand2 size={14} /> New to Nostr? Create an Identity...
+            </button>
             <p className="text-xs text-gray-500">Log in with your secret key or extension:</p>
+            <input 
+              type="password"
+              value={skInput}
+              onChange={(e) => setSkInput(e.target.value)}
+              placeholder="nsec1... or ncryptsec1..."
+              className="p-1 text-xs border border-inset border-gray-400 bg-white text-black"
+            />
             <div className="flex gap-1">
               <input 
                 type="password"
-                value={skInput}
-                onChange={(e) => setSkInput(e.target.value)}
-                placeholder="nsec1..."
+                value={skPassword}
+                onChange={(e) => setSkPassword(e.target.value)}
+                placeholder={skInput.startsWith('ncryptsec') ? "Key password" : "Choose a password to encrypt your key"}
                 className="flex-grow p-1 text-xs border border-inset border-gray-400 bg-white text-black"
               />
               <button 
-                onClick={() => { loginWithSk(skInput); setSkInput(''); }}
+                onClick={async () => {
+                  if (!await loginWithSk(skInput, skPassword)) return;
+                  setSkInput('');
+                  setSkPassword('');
+                }}
                 className="px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold text-black"
               >
                 Login
@@ -810,6 +4895,47 @@ const SettingsApp = ({
             >
               <ShieldCheck size={14} /> Use Browser Extension (NIP-07)
             </button>
+            <p className="text-xs text-gray-500 mt-1">Or use a remote signer (NIP-46):</p>
+            <div className="flex gap-1">
+              <input 
+                value={bunkerInput}
+                onChange={(e) => setBunkerInput(e.target.value)}
+                placeholder="bunker://..."
+                className="flex-grow p-1 text-xs border border-inset border-gray-400 bg-white text-black"
+              />
+              <button 
+                onClick={submitBunker}
+                disabled={!bunkerInput.trim() || isConnecting}
+                className="px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold text-black disabled:opacity-50"
+              >
+                {isConnecting ? "..." : "Connect"}
+              </button>
+            </div>
+            {connectSession ? (
+              <div className="flex flex-col items-center gap-2 p-2 bg-gray-100 dark:bg-gray-800 border border-inset border-gray-400">
+                {connectQr && <img src={connectQr} alt="nostrconnect QR code" className="w-40 h-40 bg-white" />}
+                <input 
+                  readOnly 
+                  value={connectSession.uri} 
+                  onFocus={(e) => e.target.select()}
+                  className="w-full p-1 text-[10px] font-mono border border-inset border-gray-400 bg-white text-black"
+                />
+                <span className="text-[10px] text-gray-500 italic">Scan with your signer app. Waiting for approval...</span>
+                <button 
+                  onClick={() => setConnectSession(null)}
+                  className="px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold text-black"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <button 
+                onClick={() => setConnectSession(loginWithNostrConnect())}
+                className="flex items-center justify-center gap-2 px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold text-black"
+              >
+                <Key size={14} /> Show nostrconnect QR
+              </button>
+            )}
           </div>
         )}
       </section>
@@ -842,8 +4968,15 @@ const SettingsApp = ({
         </button>
         <div className="flex flex-col gap-1 max-h-40 overflow-y-auto border border-inset border-gray-400 bg-gray-50 dark:bg-gray-900 p-1">
           {relays.map(r => (
-            <div key={r} className="flex justify-between items-center text-[10px] p-1 hover:bg-blue-500 hover:text-white group">
-              <span className="truncate">{r}</span>
+            <div key={r} className="flex justify-between items-center gap-1 text-[10px] p-1 hover:bg-blue-500 hover:text-white group">
+              <span className="truncate flex-grow">{r}</span>
+              <button 
+                onClick={() => cycleRelayMode(r)} 
+                title="Toggle read/write (NIP-65)"
+                className="w-6 flex-shrink-0 font-mono font-bold border border-gray-400"
+              >
+                {{ both: 'RW', read: 'R', write: 'W' }[relayModes[r] ?? 'both']}
+              </button>
               <button onClick={() => removeRelay(r)} className="hidden group-hover:block">
                 <Trash2 size={10} />
               </button>
@@ -852,6 +4985,119 @@ const SettingsApp = ({
         </div>
       </section>
 
+      {/* Search Relays */}
+      <section className="flex flex-col gap-2">
+        <h3 className="text-sm font-bold flex items-center gap-2 border-b border-gray-400 pb-1">
+          <Search size={16} /> Search Relays (NIP-50)
+        </h3>
+        <div className="flex gap-1">
+          <input 
+            value={newSearchRelay}
+            onChange={(e) => setNewSearchRelay(e.target.value)}
+            placeholder="wss://..."
+            className="flex-grow p-1 text-xs border border-inset border-gray-400 bg-white text-black"
+          />
+          <button 
+            onClick={addSearchRelay}
+            className="px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold text-black"
+          >
+            Add
+          </button>
+        </div>
+        {searchRelays.length === 0 ? (
+          <p className="text-[10px] text-gray-500 italic">No search relays. Find only looks through notes cached on this computer.</p>
+        ) : (
+          <div className="flex flex-col gap-1 max-h-24 overflow-y-auto border border-inset border-gray-400 bg-gray-50 dark:bg-gray-900 p-1">
+            {searchRelays.map(r => (
+              <div key={r} className="flex justify-between items-center gap-1 text-[10px] p-1 hover:bg-blue-500 hover:text-white group">
+                <span className="truncate flex-grow">{r}</span>
+                <button onClick={() => setSearchRelays(searchRelays.filter(s => s !== r))} className="hidden group-hover:block">
+                  <Trash2 size={10} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Mute List & Spam */}
+      <section className="flex flex-col gap-2">
+        <h3 className="text-sm font-bold flex items-center gap-2 border-b border-gray-400 pb-1">
+          <VolumeX size={16} /> Mute List (NIP-51)
+        </h3>
+        {userPk ? (
+          <>
+            <div className="flex gap-1">
+              <select 
+                value={muteKind} 
+                onChange={(e) => setMuteKind(e.target.value as MuteKind)}
+                className="p-1 text-xs border border-inset border-gray-400 bg-white text-black"
+              >
+                <option value="word">Word</option>
+                <option value="hashtag">Hashtag</option>
+                <option value="pubkey">Person</option>
+                <option value="thread">Thread</option>
+              </select>
+              <input 
+                value={muteInput}
+                onChange={(e) => setMuteInput(e.target.value)}
+                placeholder={{ word: "word or phrase", hashtag: "#topic", pubkey: "npub...", thread: "note..." }[muteKind]}
+                className="flex-grow min-w-0 p-1 text-xs border border-inset border-gray-400 bg-white text-black"
+              />
+              <button 
+                onClick={addMute}
+                disabled={!muteInput.trim() || isSavingMutes || !signer}
+                className="px-2 py-1 bg-[#C0C0C0] border-t border-l border-white border-b-2 border-r-2 border-black text-xs font-bold text-black disabled:opacity-50"
+              >
+                Mute
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-[10px]">
+              <input type="checkbox" checked={mutePrivately} onChange={(e) => setMutePrivately(e.target.checked)} />
+              Private (encrypted to yourself, hidden from others)
+            </label>
+            {muteList?.privateUnreadable && (
+              <p className="text-[10px] text-red-600">Your private mutes could not be decrypted. They are kept as they are until your signer can read them.</p>
+            )}
+            {muteRows.length > 0 && (
+              <div className="flex flex-col gap-1 max-h-32 overflow-y-auto border border-inset border-gray-400 bg-gray-50 dark:bg-gray-900 p-1">
+                {muteRows.map(row => (
+                  <div key={`${row.half}:${row.kind}:${row.value}`} className="flex justify-between items-center gap-1 text-[10px] p-1 hover:bg-blue-500 hover:text-white group">
+                    {row.half === 'private' && <Lock size={10} className="flex-shrink-0" />}
+                    <span className="truncate flex-grow">{row.label}</span>
+                    <button 
+                      onClick={() => mute({ kind: row.kind, value: row.value, remove: true })} 
+                      disabled={isSavingMutes || !signer}
+                      className="hidden group-hover:block"
+                    >
+                      <Trash2 size={10} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-[10px] text-gray-500 italic">Login to sync a mute list across your devices.</p>
+        )}
+        <label className="flex items-center gap-2 text-xs">
+          <input 
+            type="checkbox" 
+            checked={spamSettings.flagFloods} 
+            onChange={(e) => setSpamSettings({ ...spamSettings, flagFloods: e.target.checked })} 
+          />
+          Collapse notes repeated many times in the feed
+        </label>
+        <label className="flex items-center gap-2 text-xs">
+          <input 
+            type="checkbox" 
+            checked={spamSettings.hideNoProfile} 
+            onChange={(e) => setSpamSettings({ ...spamSettings, hideNoProfile: e.target.checked })} 
+          />
+          Hide accounts without a profile
+        </label>
+      </section>
+
       {/* Appearance */}
       <section className="flex flex-col gap-2">
         <h3 className="text-sm font-bold flex items-center gap-2 border-b border-gray-400 pb-1">
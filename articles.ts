@@ -0,0 +1,71 @@
+import { nip19, type Event as NostrEvent, type EventTemplate } from 'nostr-tools';
+
+// --- Long-form Articles (NIP-23) ---
+
+export const ARTICLE_KIND = 30023;
+export const DRAFT_KIND = 30024;
+
+export interface ArticleFields {
+  /** The `d` tag; keeping it stable is what makes a republish an edit */
+  identifier: string;
+  title: string;
+  summary: string;
+  image: string;
+  hashtags: string[];
+  content: string;
+}
+
+export interface Article extends ArticleFields {
+  pubkey: string;
+  kind: number;
+  /** First publication time, which edits keep; falls back to created_at */
+  publishedAt: number;
+  event: NostrEvent;
+}
+
+const tagValue = (event: NostrEvent, name: string) => event.tags.find(t => t[0] === name)?.[1] ?? '';
+
+export const parseArticle = (event: NostrEvent): Article => ({
+  identifier: tagValue(event, 'd'),
+  title: tagValue(event, 'title'),
+  summary: tagValue(event, 'summary'),
+  image: tagValue(event, 'image'),
+  hashtags: event.tags.filter(t => t[0] === 't' && t[1]).map(t => t[1]),
+  content: event.content,
+  pubkey: event.pubkey,
+  kind: event.kind,
+  publishedAt: Number(tagValue(event, 'published_at')) || event.created_at,
+  event,
+});
+
+export const emptyArticle = (): ArticleFields => ({ identifier: '', title: '', summary: '', image: '', hashtags: [], content: '' });
+
+export const slugify = (title: string) =>
+  title.toLowerCase().normalize('NFKD').replace(/[^\w\s-]/g, '').trim().replace(/[\s_-]+/g, '-').substring(0, 64);
+
+/** Builds a kind 30023 article or 30024 draft; `publishedAt` carries over when an article is edited */
+export const buildArticleTemplate = (fields: ArticleFields, kind: number, publishedAt?: number): EventTemplate => {
+  const now = Math.floor(Date.now() / 1000);
+  const tags = [
+    ['d', fields.identifier || slugify(fields.title) || now.toString(36)],
+    ['title', fields.title],
+  ];
+  if (fields.summary) tags.push(['summary', fields.summary]);
+  if (fields.image) tags.push(['image', fields.image]);
+  if (kind === ARTICLE_KIND) tags.push(['published_at', String(publishedAt ?? now)]);
+  fields.hashtags.forEach(t => tags.push(['t', t.toLowerCase()]));
+  return { kind, created_at: now, tags, content: fields.content };
+};
+
+export const articleAddress = (article: Pick<Article, 'kind' | 'pubkey' | 'identifier'>, relays: string[] = []) =>
+  nip19.naddrEncode({ kind: article.kind, pubkey: article.pubkey, identifier: article.identifier, relays: relays.slice(0, 2) });
+
+/** Newest version of each article address */
+export const latestArticles = (events: NostrEvent[]) => {
+  const byAddress: Record<string, NostrEvent> = {};
+  events.forEach(e => {
+    const key = `${e.kind}:${e.pubkey}:${tagValue(e, 'd')}`;
+    if (!byAddress[key] || byAddress[key].created_at < e.created_at) byAddress[key] = e;
+  });
+  return Object.values(byAddress).map(parseArticle).sort((a, b) => b.publishedAt - a.publishedAt);
+};
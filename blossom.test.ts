@@ -0,0 +1,172 @@
+// @vitest-environment happy-dom
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createHash } from 'node:crypto';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { finalizeEvent, generateSecretKey, getPublicKey, verifyEvent, type Event as NostrEvent, type EventTemplate } from 'nostr-tools';
+import { blobHash, blobUrls, deleteBlob, listAllBlobs, setBlossomServerOverride, uploadMedia, type BlobDescriptor } from './blossom';
+
+// --- Blossom stand-in ---
+
+interface StandIn {
+  url: string;
+  blobs: Map<string, { data: Buffer, descriptor: BlobDescriptor, owner: string }>;
+  /** Refuse uploads with this reason */
+  refuse?: string;
+  /** Answer uploads with a wrong hash */
+  lie?: boolean;
+  close: () => Promise<void>;
+}
+
+const readBody = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
+
+// BUD-01 authorization: a signed, unexpired kind 24242 for the verb (and hash, when given)
+const authorize = (req: IncomingMessage, verb: string, hash?: string) => {
+  const header = req.headers.authorization ?? '';
+  if (!header.startsWith('Nostr ')) return null;
+  const event: NostrEvent = JSON.parse(Buffer.from(header.substring(6), 'base64').toString('utf8'));
+  const expiration = Number(event.tags.find(t => t[0] === 'expiration')?.[1]);
+  if (!verifyEvent(event) || event.kind !== 24242 || expiration < Date.now() / 1000) return null;
+  if (!event.tags.some(t => t[0] === 't' && t[1] === verb)) return null;
+  if (hash && !event.tags.some(t => t[0] === 'x' && t[1] === hash)) return null;
+  return event.pubkey;
+};
+
+const startStandIn = async (): Promise<StandIn> => {
+  const standIn = { blobs: new Map() } as StandIn;
+  const server: Server = createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE');
+    res.setHeader('Access-Control-Expose-Headers', 'X-Reason');
+    const fail = (status: number, reason: string) => {
+      res.writeHead(status, { 'X-Reason': reason }).end();
+    };
+    const store = (data: Buffer, type: string, owner: string, claimedHash?: string) => {
+      const sha256 = createHash('sha256').update(data).digest('hex');
+      if (claimedHash && claimedHash !== sha256) return fail(409, "Hash mismatch");
+      const descriptor = { url: `${standIn.url}/${sha256}`, sha256, size: data.length, type, uploaded: Math.floor(Date.now() / 1000) };
+      standIn.blobs.set(sha256, { data, descriptor, owner });
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify(standIn.lie ? { ...descriptor, sha256: '0'.repeat(64) } : descriptor));
+    };
+
+    const path = req.url ?? '/';
+    if (req.method === 'OPTIONS') return res.writeHead(204).end();
+    if (req.method === 'PUT' && path === '/upload') {
+      if (standIn.refuse) return fail(503, standIn.refuse);
+      const data = await readBody(req);
+      const owner = authorize(req, 'upload', createHash('sha256').update(data).digest('hex'));
+      if (!owner) return fail(401, "Invalid authorization");
+      return store(data, req.headers['content-type'] ?? 'application/octet-stream', owner);
+    }
+    if (req.method === 'PUT' && path === '/mirror') {
+      const { url } = JSON.parse((await readBody(req)).toString('utf8'));
+      const hash = blobHash(url);
+      const owner = hash && authorize(req, 'upload', hash);
+      if (!owner) return fail(401, "Invalid authorization");
+      const response = await fetch(url);
+      if (!response.ok) return fail(502, "Could not fetch the original");
+      return store(Buffer.from(await response.arrayBuffer()), response.headers.get('content-type') ?? '', owner, hash);
+    }
+    const list = path.match(/^\/list\/([0-9a-f]{64})$/);
+    if (req.method === 'GET' && list) {
+      const descriptors = [...standIn.blobs.values()].filter(b => b.owner === list[1]).map(b => b.descriptor);
+      return res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(descriptors));
+    }
+    const hash = path.match(/^\/([0-9a-f]{64})/)?.[1];
+    const blob = hash && standIn.blobs.get(hash);
+    if (!hash || !blob) return fail(404, "Not found");
+    if (req.method === 'GET') return res.writeHead(200, { 'Content-Type': blob.descriptor.type ?? '' }).end(blob.data);
+    if (req.method === 'DELETE') {
+      if (authorize(req, 'delete', hash) !== blob.owner) return fail(401, "Invalid authorization");
+      standIn.blobs.delete(hash);
+      return res.writeHead(200).end();
+    }
+    fail(405, "Method not allowed");
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  standIn.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  standIn.close = () => new Promise(resolve => server.close(() => resolve()));
+  return standIn;
+};
+
+// --- Tests ---
+
+const sk = generateSecretKey();
+const pubkey = getPublicKey(sk);
+const sign = async (template: EventTemplate) => finalizeEvent(template, sk);
+const file = (text: string) => new File([text], 'note.txt', { type: 'text/plain' });
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+describe('blossom', () => {
+  let primary: StandIn;
+  let mirror: StandIn;
+
+  beforeAll(async () => {
+    primary = await startStandIn();
+    mirror = await startStandIn();
+  });
+
+  afterEach(() => {
+    primary.blobs.clear();
+    mirror.blobs.clear();
+    primary.refuse = undefined;
+    primary.lie = false;
+    setBlossomServerOverride(null);
+  });
+
+  afterAll(async () => {
+    await primary.close();
+    await mirror.close();
+  });
+
+  it('uploads to the first server and mirrors to the rest', async () => {
+    setBlossomServerOverride([primary.url, mirror.url]);
+    const report = await uploadMedia({ file: file('hello blossom'), servers: [], sign });
+
+    expect(report.descriptor.sha256).toBe(sha256('hello blossom'));
+    expect(report.urls).toEqual([`${primary.url}/${report.descriptor.sha256}`, `${mirror.url}/${report.descriptor.sha256}`]);
+    expect(report.results.every(r => r.ok)).toBe(true);
+    expect(mirror.blobs.has(report.descriptor.sha256)).toBe(true);
+  });
+
+  it('falls back to the next server when one refuses the upload', async () => {
+    setBlossomServerOverride([primary.url, mirror.url]);
+    primary.refuse = "Storage full";
+    const report = await uploadMedia({ file: file('fallback'), servers: [], sign });
+
+    expect(report.descriptor.url.startsWith(mirror.url)).toBe(true);
+    expect(report.results[0]).toEqual({ server: primary.url, ok: false, error: "Storage full" });
+  });
+
+  it('rejects a descriptor whose hash does not match the file', async () => {
+    setBlossomServerOverride([primary.url]);
+    primary.lie = true;
+    await expect(uploadMedia({ file: file('tampered'), servers: [], sign })).rejects.toThrow(/different hash/);
+  });
+
+  it('lists blobs across servers and deletes them everywhere', async () => {
+    setBlossomServerOverride([primary.url, mirror.url]);
+    const { descriptor } = await uploadMedia({ file: file('to delete'), servers: [], sign });
+
+    const [blob] = await listAllBlobs([], pubkey, sign);
+    expect(blob.sha256).toBe(descriptor.sha256);
+    expect(blob.servers).toEqual([primary.url, mirror.url]);
+
+    const results = await deleteBlob(blob, sign);
+    expect(results.every(r => r.ok)).toBe(true);
+    expect(await listAllBlobs([], pubkey, sign)).toEqual([]);
+  });
+
+  it('finds the same blob on other servers by hash', () => {
+    const hash = sha256('x');
+    expect(blobHash(`https://cdn.example.com/${hash}.png`)).toBe(hash);
+    expect(blobHash('https://example.com/image.png')).toBeNull();
+    expect(blobUrls(`https://a.example/${hash}.png`, ['https://a.example', 'b.example/'])).toEqual([`https://b.example/${hash}.png`]);
+  });
+});
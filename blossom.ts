@@ -0,0 +1,217 @@
+import { base64 } from '@scure/base';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import type { Event as NostrEvent, EventTemplate } from 'nostr-tools';
+
+// --- Blossom Media (BUD-01 to BUD-04) ---
+
+export const DEFAULT_BLOSSOM_SERVERS = ['https://blossom.nostr.wine', 'https://satellite.earth', 'https://nostrcheck.me'];
+export const SERVER_LIST_KIND = 10063;
+const AUTH_TTL = 300;
+
+export interface BlobDescriptor {
+  url: string;
+  sha256: string;
+  size: number;
+  type?: string;
+  uploaded: number;
+}
+
+/** A blob as seen across several servers */
+export interface StoredBlob extends BlobDescriptor {
+  servers: string[];
+}
+
+export interface ServerResult {
+  server: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface UploadReport {
+  descriptor: BlobDescriptor;
+  /** Every URL the blob can now be fetched from, the primary upload first */
+  urls: string[];
+  results: ServerResult[];
+}
+
+type Sign = (template: EventTemplate) => Promise<NostrEvent>;
+
+let serverOverride: string[] | null = null;
+
+/** Sends every upload, listing and deletion to these servers instead, e.g. a local Blossom stand-in */
+export const setBlossomServerOverride = (servers: string[] | null) => {
+  serverOverride = servers?.map(normalizeServer) ?? null;
+};
+
+/** The servers to actually talk to: the override, the user's list or the defaults */
+export const effectiveServers = (servers: string[]) =>
+  serverOverride ?? (servers.length > 0 ? servers : DEFAULT_BLOSSOM_SERVERS);
+
+export const normalizeServer = (input: string) => {
+  const server = input.trim().replace(/\/+$/, '');
+  if (/^https?:\/\//.test(server)) return server;
+  // Plain http is only ever used for local stand-in servers
+  return `${/^(localhost|127\.0\.0\.1)(:\d+)?$/.test(server) ? 'http' : 'https'}://${server}`;
+};
+
+export const parseServerList = (event: NostrEvent | null) =>
+  event?.tags.filter(t => t[0] === 'server' && t[1]).map(t => normalizeServer(t[1])) ?? [];
+
+export const buildServerListTemplate = (servers: string[]): EventTemplate => ({
+  kind: SERVER_LIST_KIND,
+  created_at: Math.floor(Date.now() / 1000),
+  tags: servers.map(s => ['server', s]),
+  content: '',
+});
+
+export const sha256Hex = async (blob: Blob) =>
+  bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())));
+
+/** The hash in a BUD-01 style URL (`https://server/<sha256>.ext`), if it has one */
+export const blobHash = (url: string) => {
+  try {
+    return new URL(url).pathname.match(/\/([0-9a-f]{64})(\.\w+)?$/)?.[1] ?? null;
+  } catch (e) {
+    return null;
+  }
+};
+
+/** The same blob on other servers, keeping the original extension */
+export const blobUrls = (url: string, servers: string[]) => {
+  const hash = blobHash(url);
+  if (!hash) return [];
+  const ext = new URL(url).pathname.match(/\.\w+$/)?.[0] ?? '';
+  return servers.map(s => `${normalizeServer(s)}/${hash}${ext}`).filter(u => u !== url);
+};
+
+const buildAuthTemplate = (verb: 'upload' | 'list' | 'delete', content: string, hash?: string): EventTemplate => {
+  const now = Math.floor(Date.now() / 1000);
+  const tags = [['t', verb], ['expiration', String(now + AUTH_TTL)]];
+  if (hash) tags.push(['x', hash]);
+  return { kind: 24242, created_at: now, tags, content };
+};
+
+const authHeader = (event: NostrEvent) => `Nostr ${base64.encode(new TextEncoder().encode(JSON.stringify(event)))}`;
+
+// Servers explain refusals in X-Reason (BUD-01)
+const failure = (status: number, reason: string | null) => new Error(reason || `Server responded with ${status}`);
+
+const verify = (descriptor: BlobDescriptor, hash: string) => {
+  if (descriptor?.sha256 !== hash) throw new Error("Server returned a blob with a different hash");
+  return descriptor;
+};
+
+const putWithProgress = (url: string, auth: string, file: Blob, onProgress?: (fraction: number) => void) =>
+  new Promise<BlobDescriptor>((resolve, reject) => {
+    // fetch cannot report upload progress
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    xhr.setRequestHeader('Authorization', auth);
+    if (file.type) xhr.setRequestHeader('Content-Type', file.type);
+    xhr.upload.onprogress = (e) => e.lengthComputable && onProgress?.(e.loaded / e.total);
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) return reject(failure(xhr.status, xhr.getResponseHeader('X-Reason')));
+      try {
+        resolve(JSON.parse(xhr.responseText));
+      } catch (e) {
+        reject(new Error("Server returned an invalid blob descriptor"));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Could not reach the server"));
+    xhr.send(file);
+  });
+
+export const uploadBlob = async (server: string, file: Blob, hash: string, auth: NostrEvent, onProgress?: (fraction: number) => void) =>
+  verify(await putWithProgress(`${server}/upload`, authHeader(auth), file, onProgress), hash);
+
+/** BUD-04: asks a server to fetch the blob from a URL where it already lives */
+export const mirrorBlob = async (server: string, url: string, hash: string, auth: NostrEvent) => {
+  const response = await fetch(`${server}/mirror`, {
+    method: 'PUT',
+    headers: { 'Authorization': authHeader(auth), 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url }),
+  });
+  if (!response.ok) throw failure(response.status, response.headers.get('X-Reason'));
+  return verify(await response.json(), hash);
+};
+
+const settle = async <T>(server: string, task: () => Promise<T>): Promise<ServerResult & { value?: T }> => {
+  try {
+    return { server, ok: true, value: await task() };
+  } catch (e: any) {
+    return { server, ok: false, error: e.message };
+  }
+};
+
+/** Uploads to the first server that accepts the file, then mirrors it to the rest */
+export const uploadMedia = async ({ file, servers, sign, onProgress }: {
+  file: Blob,
+  servers: string[],
+  sign: Sign,
+  onProgress?: (fraction: number) => void
+}): Promise<UploadReport> => {
+  const targets = effectiveServers(servers);
+  const hash = await sha256Hex(file);
+  // One authorization covers the upload and every mirror of the same hash
+  const auth = await sign(buildAuthTemplate('upload', `Upload ${file instanceof File ? file.name : hash}`, hash));
+
+  const results: ServerResult[] = [];
+  let descriptor: BlobDescriptor | null = null;
+  for (const server of targets) {
+    const result = await settle(server, () => uploadBlob(server, file, hash, auth, onProgress));
+    results.push({ server, ok: result.ok, error: result.error });
+    if (result.value) {
+      descriptor = result.value;
+      break;
+    }
+  }
+  if (!descriptor) throw new Error(`Upload failed: ${results.map(r => `${r.server} (${r.error})`).join(', ')}`);
+
+  const rest = targets.filter(s => !results.some(r => r.server === s));
+  const mirrors = await Promise.all(rest.map(server => settle(server, () => mirrorBlob(server, descriptor!.url, hash, auth))));
+  return {
+    descriptor,
+    urls: [descriptor.url, ...mirrors.flatMap(m => m.value ? [m.value.url] : [])],
+    results: [...results, ...mirrors.map(({ server, ok, error }) => ({ server, ok, error }))],
+  };
+};
+
+/** Mirrors an existing blob to the given servers */
+export const mirrorToServers = async (blob: BlobDescriptor, servers: string[], sign: Sign) => {
+  const auth = await sign(buildAuthTemplate('upload', `Mirror ${blob.sha256}`, blob.sha256));
+  return Promise.all(servers.map(server => settle(server, () => mirrorBlob(server, blob.url, blob.sha256, auth))));
+};
+
+/** BUD-02 listing on every server, merged by hash; the list auth is only signed if a server asks for it */
+export const listAllBlobs = async (servers: string[], pubkey: string, sign: Sign): Promise<StoredBlob[]> => {
+  let auth: Promise<NostrEvent> | null = null;
+  const list = async (server: string): Promise<BlobDescriptor[]> => {
+    let response = await fetch(`${server}/list/${pubkey}`);
+    if (response.status === 401) {
+      auth ??= sign(buildAuthTemplate('list', "List blobs"));
+      response = await fetch(`${server}/list/${pubkey}`, { headers: { 'Authorization': authHeader(await auth) } });
+    }
+    if (!response.ok) throw failure(response.status, response.headers.get('X-Reason'));
+    return response.json();
+  };
+
+  const byHash: Record<string, StoredBlob> = {};
+  const results = await Promise.all(effectiveServers(servers).map(server => settle(server, () => list(server))));
+  results.forEach(({ server, value }) => value?.forEach(descriptor => {
+    const existing = byHash[descriptor.sha256];
+    if (existing) existing.servers.push(server);
+    else byHash[descriptor.sha256] = { ...descriptor, servers: [server] };
+  }));
+  const failed = results.filter(r => !r.ok);
+  if (failed.length === results.length && failed.length > 0) throw new Error(`Could not list blobs: ${failed[0].error}`);
+  return Object.values(byHash).sort((a, b) => b.uploaded - a.uploaded);
+};
+
+/** Deletes a blob from each server that holds it */
+export const deleteBlob = async (blob: StoredBlob, sign: Sign) => {
+  const auth = await sign(buildAuthTemplate('delete', `Delete ${blob.sha256}`, blob.sha256));
+  return Promise.all(blob.servers.map(server => settle(server, async () => {
+    const response = await fetch(`${server}/${blob.sha256}`, { method: 'DELETE', headers: { 'Authorization': authHeader(auth) } });
+    if (!response.ok) throw failure(response.status, response.headers.get('X-Reason'));
+  })));
+};
@@ -0,0 +1,109 @@
+import { nip19, nip27, type Event as NostrEvent } from 'nostr-tools';
+
+// --- Note Content (NIP-21 / NIP-27 / NIP-92) ---
+
+export interface MediaMeta {
+  mime?: string;
+  width?: number;
+  height?: number;
+  blurhash?: string;
+  alt?: string;
+  /** Mirrors to try when the main URL fails to load */
+  fallback: string[];
+}
+
+export type MediaType = 'image' | 'video' | 'audio';
+
+export type ContentBlock =
+  | Exclude<nip27.Block, { type: MediaType }>
+  | { type: MediaType, url: string, meta?: MediaMeta };
+
+/** `imeta` tags keyed by the URL they describe */
+export const parseImeta = (event: Pick<NostrEvent, 'tags'>) => {
+  const byUrl: Record<string, MediaMeta> = {};
+  event.tags.filter(t => t[0] === 'imeta').forEach(tag => {
+    const meta: MediaMeta = { fallback: [] };
+    let url: string | undefined;
+    tag.slice(1).forEach(entry => {
+      const space = entry.indexOf(' ');
+      if (space === -1) return;
+      const key = entry.substring(0, space);
+      const value = entry.substring(space + 1);
+      if (key === 'url') url = value;
+      else if (key === 'm') meta.mime = value;
+      else if (key === 'blurhash') meta.blurhash = value;
+      else if (key === 'alt') meta.alt = value;
+      else if (key === 'fallback' && isHttpUrl(value)) meta.fallback.push(value);
+      else if (key === 'dim') {
+        const [width, height] = value.split('x').map(Number);
+        if (width > 0 && height > 0) Object.assign(meta, { width, height });
+      }
+    });
+    if (url) byUrl[url] = meta;
+  });
+  return byUrl;
+};
+
+export const isProfilePointer = (pointer: nip19.ProfilePointer | nip19.EventPointer | nip19.AddressPointer): pointer is nip19.ProfilePointer =>
+  !('id' in pointer) && !('identifier' in pointer);
+
+export const isHttpUrl = (url: string) => /^https?:\/\//i.test(url);
+
+const mediaTypeOf = (mime?: string): MediaType | undefined => {
+  const type = mime?.split('/')[0];
+  return type === 'image' || type === 'video' || type === 'audio' ? type : undefined;
+};
+
+/**
+ * Splits note content into renderable blocks. URLs without a telling extension
+ * become media when an `imeta` tag declares their type.
+ */
+export const parseNoteContent = (event: Pick<NostrEvent, 'content' | 'tags'>): ContentBlock[] => {
+  const imeta = parseImeta(event);
+  const blocks: ContentBlock[] = [];
+  for (const block of nip27.parse(event as NostrEvent)) {
+    if (block.type === 'text' && block.text === '') continue;
+    if (block.type === 'hashtag' && block.value === '') {
+      blocks.push({ type: 'text', text: '#' });
+      continue;
+    }
+    if (block.type === 'emoji' && !isHttpUrl(block.url)) {
+      blocks.push({ type: 'text', text: `:${block.shortcode}:` });
+      continue;
+    }
+    if (block.type === 'url' || block.type === 'image' || block.type === 'video' || block.type === 'audio') {
+      const meta = imeta[block.url];
+      const type = mediaTypeOf(meta?.mime) ?? (block.type === 'url' ? undefined : block.type);
+      blocks.push(type ? { type, url: block.url, meta } : block);
+      continue;
+    }
+    blocks.push(block);
+  }
+  return blocks;
+};
+
+/** NIP-92 tag describing an uploaded file; only known fields are written */
+export const buildImetaTag = (url: string, meta: Partial<MediaMeta> & { sha256?: string, size?: number }) => {
+  const tag = ['imeta', `url ${url}`];
+  if (meta.mime) tag.push(`m ${meta.mime}`);
+  if (meta.sha256) tag.push(`x ${meta.sha256}`);
+  if (meta.size) tag.push(`size ${meta.size}`);
+  if (meta.width && meta.height) tag.push(`dim ${meta.width}x${meta.height}`);
+  if (meta.blurhash) tag.push(`blurhash ${meta.blurhash}`);
+  if (meta.alt) tag.push(`alt ${meta.alt}`);
+  meta.fallback?.forEach(url => tag.push(`fallback ${url}`));
+  return tag;
+};
+
+/** Adds a `p` tag for every mentioned profile and a `t` tag for every hashtag not already tagged */
+export const withContentTags = (content: string, tags: string[][]) => {
+  const result = [...tags];
+  const add = (name: string, value: string) => {
+    if (!result.some(t => t[0] === name && t[1] === value)) result.push([name, value]);
+  };
+  parseNoteContent({ content, tags: [] }).forEach(block => {
+    if (block.type === 'hashtag') add('t', block.value.toLowerCase());
+    else if (block.type === 'reference' && isProfilePointer(block.pointer)) add('p', block.pointer.pubkey);
+  });
+  return result;
+};
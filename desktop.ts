@@ -0,0 +1,153 @@
+// --- Desktop Window Geometry ---
+
+export const TASKBAR_HEIGHT = 36;
+export const MIN_WINDOW_WIDTH = 300;
+export const MIN_WINDOW_HEIGHT = 200;
+const GEOMETRY_KEY = 'desktop_window_geometry';
+
+export type ResizeEdge = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface WindowGeometry {
+  x: number;
+  y: number;
+  /** Unset until the user resizes; the window then sizes to its content */
+  width?: number;
+  height?: number;
+  isMaximized?: boolean;
+}
+
+/** The area windows may occupy: the viewport above the taskbar */
+export const desktopSize = () => ({
+  width: document.documentElement.clientWidth,
+  height: document.documentElement.clientHeight - TASKBAR_HEIGHT,
+});
+
+// The lower bound wins when the desktop is smaller than the window
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), Math.max(min, max));
+
+/** Moves a window, keeping all of it on the desktop */
+export const moveRect = (start: Rect, dx: number, dy: number, desktop = desktopSize()) => ({
+  x: clamp(start.x + dx, 0, desktop.width - start.width),
+  y: clamp(start.y + dy, 0, desktop.height - start.height),
+});
+
+/** Drags the given edges, stopping at the minimum size and the desktop border */
+export const resizeRect = (start: Rect, edge: ResizeEdge, dx: number, dy: number, desktop = desktopSize()): Rect => {
+  let { x, y, width, height } = start;
+  const right = start.x + start.width;
+  const bottom = start.y + start.height;
+  if (edge.includes('e')) width = clamp(start.width + dx, MIN_WINDOW_WIDTH, desktop.width - start.x);
+  if (edge.includes('s')) height = clamp(start.height + dy, MIN_WINDOW_HEIGHT, desktop.height - start.y);
+  if (edge.includes('w')) {
+    x = clamp(start.x + dx, 0, right - MIN_WINDOW_WIDTH);
+    width = right - x;
+  }
+  if (edge.includes('n')) {
+    y = clamp(start.y + dy, 0, bottom - MIN_WINDOW_HEIGHT);
+    height = bottom - y;
+  }
+  return { x, y, width, height };
+};
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? 'null');
+  } catch (e) {
+    return null;
+  }
+};
+
+const loadWindowGeometry = () => readJson<Record<string, WindowGeometry>>(GEOMETRY_KEY) ?? {};
+
+export const saveWindowGeometry = (windows: Record<string, WindowGeometry>) => {
+  const geometry = Object.fromEntries(Object.entries(windows).map(([id, { x, y, width, height, isMaximized }]) =>
+    [id, { x, y, width, height, isMaximized }]
+  ));
+  localStorage.setItem(GEOMETRY_KEY, JSON.stringify(geometry));
+};
+
+/** Saved geometry over the defaults, pulled back onto a desktop that may have shrunk since */
+export const withSavedGeometry = <K extends string, T extends WindowGeometry>(windows: Record<K, T>): Record<K, T> => {
+  const saved = loadWindowGeometry();
+  const desktop = desktopSize();
+  const result = { ...windows };
+  (Object.keys(windows) as K[]).forEach(id => {
+    const geometry = saved[id];
+    if (!geometry) return;
+    const width = geometry.width && Math.min(Math.max(geometry.width, MIN_WINDOW_WIDTH), desktop.width);
+    const height = geometry.height && Math.min(Math.max(geometry.height, MIN_WINDOW_HEIGHT), desktop.height);
+    result[id] = {
+      ...windows[id],
+      width,
+      height,
+      isMaximized: !!geometry.isMaximized,
+      x: clamp(geometry.x, 0, desktop.width - (width ?? MIN_WINDOW_WIDTH)),
+      y: clamp(geometry.y, 0, desktop.height - (height ?? MIN_WINDOW_HEIGHT)),
+    };
+  });
+  return result;
+};
+
+// --- Desktop Session ---
+
+const SESSION_KEY = 'desktop_session';
+const DRAFTS_KEY = 'desktop_drafts';
+
+export interface WindowSession {
+  isOpen: boolean;
+  isMinimized: boolean;
+  zIndex: number;
+}
+
+export interface DesktopSession<K extends string> {
+  windows: Partial<Record<K, WindowSession>>;
+  activeApp: K | null;
+  theme: 'light' | 'dark';
+}
+
+export const loadSession = <K extends string>() => readJson<DesktopSession<K>>(SESSION_KEY);
+
+export const saveSession = <K extends string>(windows: Record<K, WindowSession>, activeApp: K | null, theme: 'light' | 'dark') => {
+  const session: DesktopSession<K> = { windows: {}, activeApp, theme };
+  (Object.keys(windows) as K[]).forEach(id => {
+    const { isOpen, isMinimized, zIndex } = windows[id];
+    session.windows[id] = { isOpen, isMinimized, zIndex };
+  });
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+};
+
+/** Reopens the windows of the last session in their old stacking order */
+export const withSavedSession = <K extends string, T extends WindowSession>(windows: Record<K, T>, session: DesktopSession<K> | null): Record<K, T> => {
+  if (!session) return windows;
+  const result = { ...windows };
+  (Object.keys(windows) as K[]).forEach(id => {
+    const saved = session.windows[id];
+    if (saved) result[id] = { ...windows[id], isOpen: saved.isOpen, isMinimized: saved.isMinimized, zIndex: saved.zIndex };
+  });
+  return result;
+};
+
+// Drafts are kept per account, so logging in as someone else never shows (or sends) another account's unsent work
+type Drafts = Record<string, Record<string, unknown>>;
+const draftOwner = (account: string | null) => account ?? 'anonymous';
+
+export const loadDraft = <T>(account: string | null, key: string) =>
+  readJson<Drafts>(DRAFTS_KEY)?.[draftOwner(account)]?.[key] as T | undefined;
+
+/** Keeps unsent work (composer text, open tabs) across reloads; undefined removes the entry */
+export const saveDraft = (account: string | null, key: string, value: unknown) => {
+  const drafts = readJson<Drafts>(DRAFTS_KEY) ?? {};
+  const own = drafts[draftOwner(account)] ??= {};
+  if (value === undefined) delete own[key];
+  else own[key] = value;
+  localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
+};
+
+export const clearDrafts = () => localStorage.removeItem(DRAFTS_KEY);
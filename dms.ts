@@ -0,0 +1,130 @@
+import { getEventHash, verifyEvent, nip59, type SimplePool, type Event as NostrEvent } from 'nostr-tools';
+import type { Cipher, Signer } from './signer';
+
+// --- Private Direct Messages (NIP-17, legacy NIP-04) ---
+
+export interface DirectMessage {
+  id: string;
+  pubkey: string;
+  /** The other side of the conversation, whoever sent this message */
+  peer: string;
+  content: string;
+  created_at: number;
+  /** Kind 4 messages are only decoded for reading, never sent */
+  legacy: boolean;
+}
+
+type Rumor = Omit<NostrEvent, 'sig'>;
+
+const TWO_DAYS = 2 * 24 * 60 * 60;
+
+// Seals get a fuzzed timestamp so relays cannot line them up with the message
+const randomPast = () => Math.floor(Date.now() / 1000 - Math.random() * TWO_DAYS);
+
+const requireCipher = (cipher: Cipher | undefined, nip: string) => {
+  if (!cipher) throw new Error(`Your signer does not support ${nip} encryption`);
+  return cipher;
+};
+
+/** Seals the rumor with the user's signer and gift-wraps it for one recipient under a throwaway key */
+const sealAndWrap = async (signer: Signer, rumor: Rumor, recipient: string) => {
+  const nip44 = requireCipher(signer.nip44, 'NIP-44');
+  const seal = await signer.signEvent({
+    kind: 13,
+    created_at: randomPast(),
+    tags: [],
+    content: await nip44.encrypt(recipient, JSON.stringify(rumor)),
+  });
+  return nip59.createWrap(seal, recipient);
+};
+
+/** Builds the kind 1059 wraps for a kind 14 message: one for the recipient and one so our other devices see it */
+export const createDirectMessageWraps = async (signer: Signer, recipient: string, content: string) => {
+  const pubkey = await signer.getPublicKey();
+  const unsigned = { kind: 14, pubkey, created_at: Math.floor(Date.now() / 1000), tags: [['p', recipient]], content };
+  const rumor: Rumor = { ...unsigned, id: getEventHash(unsigned) };
+  return {
+    rumor,
+    toRecipient: await sealAndWrap(signer, rumor, recipient),
+    toSelf: await sealAndWrap(signer, rumor, pubkey),
+  };
+};
+
+// Decrypting is a round trip for remote signers, so each wrap is only opened once per session.
+// Failures are not kept: a locked or unreachable signer may well succeed on the next try.
+const openedWraps = new Map<string, DirectMessage>();
+
+const peerOf = (event: { pubkey: string, tags: string[][] }, userPk: string) =>
+  event.pubkey === userPk ? event.tags.find(t => t[0] === 'p')?.[1] ?? userPk : event.pubkey;
+
+/** Opens a kind 1059 gift wrap; returns null for anything that is not a well-formed kind 14 */
+export const unwrapDirectMessage = async (signer: Signer, wrap: NostrEvent, userPk: string): Promise<DirectMessage | null> => {
+  const opened = openedWraps.get(wrap.id);
+  if (opened) return opened;
+  const nip44 = requireCipher(signer.nip44, 'NIP-44');
+
+  let message: DirectMessage | null = null;
+  try {
+    const seal: NostrEvent = JSON.parse(await nip44.decrypt(wrap.pubkey, wrap.content));
+    if (seal.kind === 13 && verifyEvent(seal)) {
+      const rumor: Rumor = JSON.parse(await nip44.decrypt(seal.pubkey, seal.content));
+      // The rumor is unsigned, so its author is only trusted when it matches the seal's signer
+      if (rumor.kind === 14 && rumor.pubkey === seal.pubkey) {
+        message = {
+          id: rumor.id,
+          pubkey: rumor.pubkey,
+          peer: peerOf(rumor, userPk),
+          content: rumor.content,
+          created_at: rumor.created_at,
+          legacy: false,
+        };
+      }
+    }
+  } catch (e) {
+    message = null;
+  }
+  if (message) openedWraps.set(wrap.id, message);
+  return message;
+};
+
+/** Read-only decoding of legacy kind 4 messages */
+export const decryptLegacyMessage = async (signer: Signer, event: NostrEvent, userPk: string): Promise<DirectMessage | null> => {
+  const opened = openedWraps.get(event.id);
+  if (opened) return opened;
+  const nip04 = requireCipher(signer.nip04, 'NIP-04');
+  const peer = peerOf(event, userPk);
+
+  let message: DirectMessage | null = null;
+  try {
+    message = {
+      id: event.id,
+      pubkey: event.pubkey,
+      peer,
+      content: await nip04.decrypt(peer, event.content),
+      created_at: event.created_at,
+      legacy: true,
+    };
+  } catch (e) {
+    message = null;
+  }
+  if (message) openedWraps.set(event.id, message);
+  return message;
+};
+
+/** A user's preferred inbox relays (kind 10050), falling back to the given relays */
+export const fetchDmRelays = async (pool: SimplePool, relays: string[], pubkey: string) => {
+  const list = await pool.get(relays, { kinds: [10050], authors: [pubkey] });
+  const inbox = list?.tags.filter(t => t[0] === 'relay' && t[1]).map(t => t[1]) ?? [];
+  return inbox.length > 0 ? inbox : relays;
+};
+
+/** Groups messages by peer, newest conversation first */
+export const groupConversations = (messages: DirectMessage[]) => {
+  const byPeer: Record<string, DirectMessage[]> = {};
+  messages.forEach(m => {
+    (byPeer[m.peer] ??= []).push(m);
+  });
+  return Object.entries(byPeer)
+    .map(([peer, thread]) => ({ peer, messages: thread.sort((a, b) => a.created_at - b.created_at) }))
+    .sort((a, b) => b.messages[b.messages.length - 1].created_at - a.messages[a.messages.length - 1].created_at);
+};
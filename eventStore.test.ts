@@ -0,0 +1,72 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect } from 'vitest';
+import type { Event as NostrEvent } from 'nostr-tools';
+import { createEventStore } from './eventStore';
+
+let nextId = 0;
+const event = (fields: Partial<NostrEvent>): NostrEvent => ({
+  id: (nextId++).toString(16).padStart(64, '0'),
+  pubkey: 'a'.repeat(64),
+  created_at: 1000,
+  kind: 1,
+  tags: [],
+  content: '',
+  sig: '',
+  ...fields,
+});
+
+// Each test gets its own in-memory database
+const freshStore = (maxEvents?: number) => createEventStore(new IDBFactory(), { maxEvents });
+
+describe('eventStore', () => {
+  it('answers kind, author and tag filters newest first', async () => {
+    const store = freshStore();
+    const bob = 'b'.repeat(64);
+    await store.add([
+      event({ created_at: 1, content: 'first' }),
+      event({ created_at: 3, content: 'third', tags: [['t', 'nostr']] }),
+      event({ created_at: 2, content: 'second', pubkey: bob }),
+      event({ created_at: 4, kind: 7, content: '+' }),
+    ]);
+
+    expect((await store.query({ kinds: [1] })).map(e => e.content)).toEqual(['third', 'second', 'first']);
+    expect((await store.query({ authors: [bob] })).map(e => e.content)).toEqual(['second']);
+    expect((await store.query({ '#t': ['nostr'] })).map(e => e.content)).toEqual(['third']);
+    expect((await store.query({ kinds: [1], limit: 2 })).map(e => e.content)).toEqual(['third', 'second']);
+    expect((await store.query({ kinds: [1], since: 2, until: 2 })).map(e => e.content)).toEqual(['second']);
+  });
+
+  it('matches every search word and ignores NIP-50 extensions', async () => {
+    const store = freshStore();
+    await store.add([event({ content: 'Hello Nostr world' }), event({ content: 'hello there' })]);
+
+    expect((await store.query({ search: 'hello world' })).map(e => e.content)).toEqual(['Hello Nostr world']);
+    expect(await store.query({ search: 'hello language:en' })).toHaveLength(2);
+  });
+
+  it('keeps only the latest version of replaceable events', async () => {
+    const store = freshStore();
+    await store.add([event({ kind: 0, created_at: 10, content: 'new' })]);
+    await store.add([event({ kind: 0, created_at: 5, content: 'old' })]);
+    await store.add([event({ kind: 30023, created_at: 1, tags: [['d', 'a']] }), event({ kind: 30023, created_at: 2, tags: [['d', 'b']] })]);
+
+    expect((await store.query({ kinds: [0] })).map(e => e.content)).toEqual(['new']);
+    expect(await store.query({ kinds: [30023] })).toHaveLength(2);
+    expect(await store.newest({ kinds: [0] })).toBe(10);
+  });
+
+  it('does not store ephemeral events', async () => {
+    const store = freshStore();
+    await store.add([event({ kind: 24242 })]);
+    expect(await store.query({ kinds: [24242] })).toEqual([]);
+  });
+
+  it('evicts the oldest events beyond the size budget', async () => {
+    const store = freshStore(3);
+    await store.add([1, 2, 3, 4, 5].map(t => event({ created_at: t, content: String(t) })));
+    await store.evict();
+
+    expect((await store.query({})).map(e => e.content)).toEqual(['5', '4', '3']);
+  });
+});
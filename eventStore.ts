@@ -0,0 +1,212 @@
+import { matchFilter, type Event as NostrEvent, type Filter } from 'nostr-tools';
+
+// --- Local Event Store (IndexedDB) ---
+
+export interface EventStore {
+  add(events: NostrEvent[]): Promise<void>;
+  /** Answers a NIP-01 filter from the cache, newest first; `search` is a plain substring match on every word */
+  query(filter: Filter): Promise<NostrEvent[]>;
+  /** Newest cached created_at for a filter, used as the `since` for relays */
+  newest(filter: Filter): Promise<number | undefined>;
+  evict(): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface EventStoreOptions {
+  name?: string;
+  /** Size budget; the oldest events beyond it are evicted */
+  maxEvents?: number;
+}
+
+type StoredEvent = NostrEvent & { _tags: string[], _replaceKey?: string };
+
+const DB_VERSION = 1;
+const STORE = 'events';
+const DEFAULT_MAX_EVENTS = 20000;
+const EVICT_EVERY = 500;
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = tx.onabort = () => reject(tx.error);
+});
+
+// Single-letter tags are the only ones NIP-01 filters can ask for
+const indexTags = (event: NostrEvent) =>
+  event.tags.filter(t => t[0]?.length === 1 && t[1] !== undefined).map(t => `${t[0]}:${t[1]}`);
+
+// Replaceable (NIP-01) and addressable events keep only their latest version
+const replaceKey = (event: NostrEvent) => {
+  if (event.kind === 0 || event.kind === 3 || (event.kind >= 10000 && event.kind < 20000)) return `${event.kind}:${event.pubkey}`;
+  if (event.kind >= 30000 && event.kind < 40000) return `${event.kind}:${event.pubkey}:${event.tags.find(t => t[0] === 'd')?.[1] ?? ''}`;
+  return undefined;
+};
+
+// NIP-50 `key:value` extensions mean nothing to the local cache and are ignored
+const searchTerms = (search?: string) =>
+  (search ?? '').toLowerCase().split(/\s+/).filter(term => term && !/^\w+:\S/.test(term));
+
+const matches = (filter: Filter, terms: string[], event: NostrEvent) => {
+  if (!matchFilter(filter, event)) return false;
+  const content = event.content.toLowerCase();
+  return terms.every(term => content.includes(term));
+};
+
+const isEphemeral = (kind: number) => kind >= 20000 && kind < 30000;
+
+const toStored = (event: NostrEvent): StoredEvent => ({ ...event, _tags: indexTags(event), _replaceKey: replaceKey(event) });
+
+const fromStored = ({ _tags, _replaceKey, ...event }: StoredEvent): NostrEvent => event;
+
+const openDatabase = (factory: IDBFactory, name: string) => new Promise<IDBDatabase>((resolve, reject) => {
+  const req = factory.open(name, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const store = req.result.createObjectStore(STORE, { keyPath: 'id' });
+    store.createIndex('created_at', 'created_at');
+    store.createIndex('kind_created', ['kind', 'created_at']);
+    store.createIndex('pubkey_created', ['pubkey', 'created_at']);
+    store.createIndex('tags', '_tags', { multiEntry: true });
+    store.createIndex('replace_key', '_replaceKey');
+  };
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+// Walks one index range newest first, stopping once `limit` events match
+const scan = (index: IDBIndex | IDBObjectStore, range: IDBKeyRange | undefined, filter: Filter, limit: number) =>
+  new Promise<StoredEvent[]>((resolve, reject) => {
+    const terms = searchTerms(filter.search);
+    const found: StoredEvent[] = [];
+    const req = index.openCursor(range, 'prev');
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor || found.length >= limit) return resolve(found);
+      if (matches(filter, terms, fromStored(cursor.value))) found.push(cursor.value);
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
+
+/** The factory is injectable so queries can run against a fake in-memory IndexedDB */
+export const createEventStore = (
+  factory: IDBFactory | undefined = globalThis.indexedDB,
+  { name = 'nostalgia-events', maxEvents = DEFAULT_MAX_EVENTS }: EventStoreOptions = {}
+): EventStore => {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!factory) return Promise.reject(new Error("IndexedDB is not available"));
+    return db ??= openDatabase(factory, name);
+  };
+  let writesSinceEvict = 0;
+
+  const evict = async () => {
+    const tx = (await open()).transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    let excess = (await request(store.count())) - maxEvents;
+    if (excess > 0) {
+      const req = store.index('created_at').openCursor();
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor || excess-- <= 0) return;
+        cursor.delete();
+        cursor.continue();
+      };
+    }
+    await transactionDone(tx);
+  };
+
+  const add = async (events: NostrEvent[]) => {
+    // Within one batch only the newest version of a replaceable event is worth writing
+    const latest: Record<string, NostrEvent> = {};
+    events.forEach(e => {
+      if (isEphemeral(e.kind)) return;
+      const key = replaceKey(e) ?? e.id;
+      if (!latest[key] || latest[key].created_at < e.created_at) latest[key] = e;
+    });
+    const storable = Object.values(latest);
+    if (storable.length === 0) return;
+    const tx = (await open()).transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    storable.forEach(event => {
+      const stored = toStored(event);
+      if (!stored._replaceKey) {
+        store.put(stored);
+        return;
+      }
+      const req = store.index('replace_key').getAll(stored._replaceKey);
+      req.onsuccess = () => {
+        const existing: StoredEvent[] = req.result;
+        if (existing.some(e => e.created_at > stored.created_at || e.id === stored.id)) return;
+        existing.forEach(e => store.delete(e.id));
+        store.put(stored);
+      };
+    });
+    await transactionDone(tx);
+
+    writesSinceEvict += storable.length;
+    if (writesSinceEvict >= EVICT_EVERY) {
+      writesSinceEvict = 0;
+      await evict();
+    }
+  };
+
+  const query = async (filter: Filter) => {
+    const store = (await open()).transaction(STORE, 'readonly').objectStore(STORE);
+    const limit = filter.limit ?? Infinity;
+    const since = filter.since ?? 0;
+    const until = filter.until ?? Infinity;
+
+    let batches: StoredEvent[][];
+    if (filter.ids) {
+      const found = await Promise.all(filter.ids.map(id => request<StoredEvent | undefined>(store.get(id))));
+      batches = [found.filter((e): e is StoredEvent => !!e && matches(filter, searchTerms(filter.search), fromStored(e)))];
+    } else if (filter.authors) {
+      const index = store.index('pubkey_created');
+      batches = await Promise.all(filter.authors.map(pk => scan(index, IDBKeyRange.bound([pk, since], [pk, until]), filter, limit)));
+    } else if (Object.keys(filter).some(k => k.startsWith('#'))) {
+      // Tag matches are not ordered by time, so every candidate is collected before sorting
+      const [key, values] = Object.entries(filter).find(([k]) => k.startsWith('#')) as [string, string[]];
+      const index = store.index('tags');
+      batches = await Promise.all(values.map(v => scan(index, IDBKeyRange.only(`${key.substring(1)}:${v}`), filter, Infinity)));
+    } else if (filter.kinds) {
+      const index = store.index('kind_created');
+      batches = await Promise.all(filter.kinds.map(kind => scan(index, IDBKeyRange.bound([kind, since], [kind, until]), filter, limit)));
+    } else {
+      batches = [await scan(store.index('created_at'), IDBKeyRange.bound(since, until), filter, limit)];
+    }
+
+    const unique: Record<string, NostrEvent> = {};
+    batches.flat().forEach(e => { unique[e.id] = fromStored(e); });
+    return Object.values(unique).sort((a, b) => b.created_at - a.created_at).slice(0, limit);
+  };
+
+  const newest = async (filter: Filter) => (await query({ ...filter, limit: 1 }))[0]?.created_at;
+
+  const clear = async () => {
+    const tx = (await open()).transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    await transactionDone(tx);
+  };
+
+  // A missing or broken IndexedDB (private browsing) only costs us the cache
+  const quietly = <A extends unknown[], T>(fn: (...args: A) => Promise<T>, fallback: T) =>
+    (...args: A) => fn(...args).catch((e) => {
+      console.warn("Event store unavailable", e);
+      return fallback;
+    });
+
+  return {
+    add: quietly(add, undefined),
+    query: quietly(query, []),
+    newest: quietly(newest, undefined),
+    evict: quietly(evict, undefined),
+    clear: quietly(clear, undefined),
+  };
+};
+
+/** Shared store for the app; both the React client and the legacy DOM client read from it */
+export const eventStore = createEventStore();
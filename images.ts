@@ -0,0 +1,125 @@
+import { encode } from 'blurhash';
+
+// --- Image Preprocessing ---
+
+export const MAX_IMAGE_DIMENSION = 2048;
+const REENCODE_QUALITY = 0.9;
+// Blurhash only needs a thumbnail; encoding full-size pixels would stall the page
+const BLURHASH_SIZE = 32;
+
+export interface ImageInfo {
+  width: number;
+  height: number;
+  blurhash: string;
+}
+
+export interface ProcessedImage extends ImageInfo {
+  file: File;
+  resized: boolean;
+}
+
+// Animated GIFs and SVGs would be flattened by a canvas redraw, so they are uploaded as they are
+const REENCODABLE = ['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/heic', 'image/heif'];
+
+// Neither can carry EXIF, so uploading them untouched leaks nothing
+const METADATA_FREE = ['image/gif', 'image/svg+xml'];
+
+export const canProcessImage = (file: File) => REENCODABLE.includes(file.type);
+
+export const isMetadataFree = (file: File) => METADATA_FREE.includes(file.type);
+
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1'];
+
+// Magic bytes of the formats that matter here; anything else is left to the declared type
+const sniffImageType = async (file: File) => {
+  const bytes = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (ascii(1, 4) === 'PNG') return 'image/png';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') return 'image/tiff';
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (HEIF_BRANDS.includes(brand)) return 'image/heic';
+  }
+  return null;
+};
+
+/**
+ * The file typed by its content rather than its label: browsers other than Safari leave
+ * HEIC untyped, and some report nonstandard types such as image/jpg.
+ */
+export const withSniffedType = async (file: File) => {
+  const type = await sniffImageType(file);
+  return type && type !== file.type ? new File([file], file.name, { type }) : file;
+};
+
+/** Size after scaling the longest side down to `maxDimension`; never scales up */
+export const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const drawToCanvas = (bitmap: ImageBitmap, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return { canvas, ctx };
+};
+
+const computeBlurhash = (bitmap: ImageBitmap) => {
+  const { width, height } = fitWithin(bitmap.width, bitmap.height, BLURHASH_SIZE);
+  const { ctx } = drawToCanvas(bitmap, width, height);
+  return encode(ctx.getImageData(0, 0, width, height).data, width, height, 4, 3);
+};
+
+// EXIF orientation is baked into the pixels, since the tag itself is about to be dropped
+const decode = (file: File) => createImageBitmap(file, { imageOrientation: 'from-image' }).catch(() => {
+  throw new Error(`Could not read ${file.name} to remove its metadata`);
+});
+
+/** Dimensions and blurhash of an image that is uploaded untouched */
+export const describeImage = async (file: File): Promise<ImageInfo | null> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    try {
+      return { width: bitmap.width, height: bitmap.height, blurhash: computeBlurhash(bitmap) };
+    } finally {
+      bitmap.close();
+    }
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Redraws the image on a canvas, which leaves EXIF (GPS included), XMP and every other
+ * metadata block behind. Images larger than `maxDimension` are scaled down when
+ * `confirmResize` agrees, or always when it is not given.
+ */
+export const processImage = async (file: File, { maxDimension = MAX_IMAGE_DIMENSION, confirmResize }: {
+  maxDimension?: number,
+  confirmResize?: (width: number, height: number) => boolean
+} = {}): Promise<ProcessedImage> => {
+  const bitmap = await decode(file);
+  try {
+    const isLarge = Math.max(bitmap.width, bitmap.height) > maxDimension;
+    const resized = isLarge && (confirmResize?.(bitmap.width, bitmap.height) ?? true);
+    const { width, height } = resized ? fitWithin(bitmap.width, bitmap.height, maxDimension) : bitmap;
+    const { canvas } = drawToCanvas(bitmap, width, height);
+
+    // PNG stays lossless for screenshots and transparency; formats browsers cannot encode become JPEG
+    const type = file.type === 'image/png' || file.type === 'image/webp' ? file.type : 'image/jpeg';
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, REENCODE_QUALITY));
+    if (!blob) throw new Error(`Could not re-encode ${file.name}`);
+    const name = type === file.type ? file.name : `${file.name.replace(/\.\w+$/, '')}.jpg`;
+    return { file: new File([blob], name, { type }), width, height, blurhash: computeBlurhash(bitmap), resized };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -3,7 +3,11 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import '@tailwindcss/browser';
-import { SimplePool, getPublicKey, finalizeEvent, nip19 } from 'nostr-tools';
+import { SimplePool, getPublicKey, finalizeEvent, nip18, nip19, nip25 } from 'nostr-tools';
+import { zapEvent } from './zaps';
+import { eventStore } from './eventStore';
+import { parseNoteContent } from './content';
+import { publishOrQueue, startPublishQueue } from './publishQueue';
 
 const bytesToHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
 const hexToBytes = (hex: string) => {
@@ -1147,6 +1151,7 @@ async function initNostalgiaApp(windowElement: HTMLDivElement) {
 
     if (!nostrPool) {
         nostrPool = new SimplePool();
+        startPublishQueue(nostrPool);
     }
 
     statusEl.textContent = "Connecting to relays...";
@@ -1173,17 +1178,24 @@ async function initNostalgiaApp(windowElement: HTMLDivElement) {
                     <span class="nostalgia-note-author">@${author}</span>
                     <span class="nostalgia-note-date">${date}</span>
                 </div>
-                <div class="nostalgia-note-content">${escapeHtml(event.content)}</div>
+                <div class="nostalgia-note-content"></div>
                 <div class="nostalgia-note-footer">
                     <span class="nostalgia-btn-zap" data-id="${event.id}">⚡ Zap</span>
                     <span>💬 Reply</span>
-                    <span>🔄 Repost</span>
+                    <span class="nostalgia-btn-repost">🔄 Repost</span>
+                    <span class="nostalgia-btn-like">❤️ Like</span>
                 </div>
             `;
             
+            noteDiv.querySelector('.nostalgia-note-content')!.append(...renderLegacyContent(event));
+
             const zapBtn = noteDiv.querySelector('.nostalgia-btn-zap');
-            zapBtn?.addEventListener('click', () => {
-                alert(`Zapping note ${event.id.substring(0, 8)}... (Integration with Lightning Wallet required)`);
+            zapBtn?.addEventListener('click', () => zapLegacyNote(event));
+            noteDiv.querySelector('.nostalgia-btn-repost')?.addEventListener('click', () => {
+                publishLegacyEvent((sk) => nip18.finishRepostEvent({ created_at: Math.floor(Date.now() / 1000) }, event, nostrRelays[0], sk), "Reposted!");
+            });
+            noteDiv.querySelector('.nostalgia-btn-like')?.addEventListener('click', () => {
+                publishLegacyEvent((sk) => nip25.finishReactionEvent({ created_at: Math.floor(Date.now() / 1000) }, event, sk), "Liked!");
             });
 
             feedList.appendChild(noteDiv);
@@ -1196,15 +1208,64 @@ async function initNostalgiaApp(windowElement: HTMLDivElement) {
         updateFeed(notes);
     };
 
-    const loadFeed = () => {
+    const publishLegacyEvent = async (build: (sk: Uint8Array) => any, successMessage: string) => {
+        if (!nostrUserSk) {
+            alert("Please login first with your nsec.");
+            return;
+        }
+        try {
+            await Promise.any(nostrPool!.publish(nostrRelays, build(nostrUserSk)));
+            statusEl.textContent = successMessage;
+        } catch (e) {
+            alert("Failed to publish event.");
+            console.error(e);
+        }
+    };
+
+    const zapLegacyNote = async (event: any) => {
+        const userSk = nostrUserSk;
+        if (!userSk) {
+            alert("Please login first with your nsec.");
+            return;
+        }
+        const amount = parseInt(prompt("Zap amount (sats)", "21") || '', 10);
+        if (!(amount > 0)) return;
+
+        try {
+            statusEl.textContent = `Zapping note ${event.id.substring(0, 8)}...`;
+            const metadataEvents = await nostrPool!.querySync(nostrRelays, { kinds: [0], authors: [event.pubkey] });
+            const latest = metadataEvents.sort((a, b) => b.created_at - a.created_at)[0];
+            const profile = latest ? JSON.parse(latest.content) : {};
+            await zapEvent({
+                event,
+                profile,
+                amountSats: amount,
+                relays: nostrRelays,
+                sign: async (template) => finalizeEvent(template, userSk),
+            });
+            statusEl.textContent = `Zapped ${amount} sats!`;
+        } catch (e: any) {
+            alert(`Zap failed: ${e.message}`);
+            statusEl.textContent = "Connected to relays";
+        }
+    };
+
+    const loadFeed = async () => {
         if (nostrSub) nostrSub.close();
+        notes.length = 0;
         feedList.innerHTML = '<div class="nostalgia-loading">Fetching global feed...</div>';
+
+        // Show the cached feed right away and only ask relays for what came after it
+        const cached = await eventStore.query({ kinds: [1], limit: 50 });
+        cached.forEach(appendNote);
+        const since = cached[0]?.created_at;
         
         nostrSub = nostrPool!.subscribeMany(
             nostrRelays,
-            { kinds: [1], limit: 50 },
+            since ? { kinds: [1], limit: 50, since } : { kinds: [1], limit: 50 },
             {
                 onevent(event) {
+                    eventStore.add([event]);
                     appendNote(event);
                 },
                 oneose() {
@@ -1265,9 +1326,13 @@ async function initNostalgiaApp(windowElement: HTMLDivElement) {
 
             const event = finalizeEvent(eventTemplate, nostrUserSk);
             
-            await Promise.any(nostrPool!.publish(nostrRelays, event));
-            
-            alert("Note published!");
+            const results = await publishOrQueue(nostrPool!, nostrRelays, event);
+            const accepted = results.filter(r => r.status === 'ok').length;
+            const queued = results.filter(r => r.queued).length;
+
+            alert(accepted > 0
+                ? `Note published to ${accepted} of ${results.length} relays.${queued > 0 ? ` ${queued} will be retried.` : ''}`
+                : "No relay has accepted the note yet. It was queued and will be retried.");
             postText.value = '';
             appendNote(event);
         } catch (e) {
@@ -1281,13 +1346,40 @@ async function initNostalgiaApp(windowElement: HTMLDivElement) {
 
     feedBtn.addEventListener('click', loadFeed);
     
-    profileBtn.addEventListener('click', () => {
+    profileBtn.addEventListener('click', async () => {
         if (!nostrUserPk) {
             alert("Please login to view your profile.");
             return;
         }
-        const npub = nip19.npubEncode(nostrUserPk);
-        alert(`Your npub: ${npub}\n\n(Profile editing coming soon in Nostalgia v2.0)`);
+        if (nostrSub) { nostrSub.close(); nostrSub = null; }
+        feedList.innerHTML = '<div class="nostalgia-loading">Loading profile...</div>';
+
+        const [metadataEvents, ownNotes] = await Promise.all([
+            nostrPool!.querySync(nostrRelays, { kinds: [0], authors: [nostrUserPk] }),
+            nostrPool!.querySync(nostrRelays, { kinds: [1], authors: [nostrUserPk], limit: 50 }),
+        ]);
+        let profile: any = {};
+        const latest = metadataEvents.sort((a, b) => b.created_at - a.created_at)[0];
+        try { if (latest) profile = JSON.parse(latest.content); } catch (e) { console.warn("Invalid kind 0 content", e); }
+
+        notes.length = 0;
+        notes.push(...ownNotes);
+        updateFeed(notes);
+
+        const header = document.createElement('div');
+        header.className = 'nostalgia-note';
+        header.innerHTML = `
+            <div class="nostalgia-note-header">
+                <span class="nostalgia-note-author">${escapeHtml(profile.display_name || profile.name || nip19.npubEncode(nostrUserPk).substring(0, 12))}</span>
+                <span class="nostalgia-note-date">${escapeHtml(profile.nip05 || '')}</span>
+            </div>
+            <div class="nostalgia-note-content">${escapeHtml(profile.about || '')}</div>
+            <div class="nostalgia-note-footer">
+                <span>${profile.lud16 ? '⚡ ' + escapeHtml(profile.lud16) : ''}</span>
+            </div>
+        `;
+        feedList.prepend(header);
+        statusEl.textContent = "Viewing profile";
     });
 
     relaysBtn.addEventListener('click', () => {
@@ -1297,6 +1389,57 @@ async function initNostalgiaApp(windowElement: HTMLDivElement) {
     loadFeed();
 }
 
+// Builds DOM nodes rather than HTML so nothing in a note can inject markup
+function renderLegacyContent(event: any): Node[] {
+    return parseNoteContent(event).map(block => {
+        const el = (tag: string, className: string, text = '') => {
+            const node = document.createElement(tag);
+            node.className = className;
+            node.textContent = text;
+            return node;
+        };
+        switch (block.type) {
+            case 'text':
+                return document.createTextNode(block.text);
+            case 'hashtag':
+                return el('span', 'nostalgia-hashtag', `#${block.value}`);
+            case 'url': {
+                const link = el('a', 'nostalgia-link', block.url) as HTMLAnchorElement;
+                link.href = block.url;
+                link.target = '_blank';
+                link.rel = 'noopener noreferrer';
+                return link;
+            }
+            case 'image': {
+                const img = el('img', 'nostalgia-media') as HTMLImageElement;
+                img.src = block.url;
+                img.alt = block.meta?.alt ?? '';
+                img.loading = 'lazy';
+                img.referrerPolicy = 'no-referrer';
+                return img;
+            }
+            case 'video':
+            case 'audio': {
+                const player = el(block.type, 'nostalgia-media') as HTMLMediaElement;
+                player.src = block.url;
+                player.controls = true;
+                player.preload = 'none';
+                return player;
+            }
+            case 'reference': {
+                const { pointer } = block;
+                if ('identifier' in pointer) return el('span', 'nostalgia-mention', `${nip19.naddrEncode(pointer).substring(0, 16)}…`);
+                if ('id' in pointer) return el('span', 'nostalgia-mention', `${nip19.noteEncode(pointer.id).substring(0, 16)}…`);
+                return el('span', 'nostalgia-mention', `@${nip19.npubEncode(pointer.pubkey).substring(0, 16)}…`);
+            }
+            case 'emoji':
+                return document.createTextNode(`:${block.shortcode}:`);
+            default:
+                return document.createTextNode(block.url);
+        }
+    });
+}
+
 function escapeHtml(text: string): string {
     const div = document.createElement('div');
     div.textContent = text;
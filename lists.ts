@@ -0,0 +1,71 @@
+import type { Event as NostrEvent, EventTemplate } from 'nostr-tools';
+
+// --- Bookmarks & Follow Sets (NIP-51) ---
+
+export interface FollowSet {
+  /** The `d` tag */
+  id: string;
+  title: string;
+  pubkeys: string[];
+  event: NostrEvent | null;
+}
+
+export const latestEvent = (events: NostrEvent[]) => [...events].sort((a, b) => b.created_at - a.created_at)[0] ?? null;
+
+/** Bookmarked note ids from the kind 10003 list; other bookmark types are left alone */
+export const parseBookmarks = (event: NostrEvent | null) =>
+  event?.tags.filter(t => t[0] === 'e' && t[1]).map(t => t[1]) ?? [];
+
+export const buildBookmarksTemplate = (previous: NostrEvent | null, note: NostrEvent, add: boolean): EventTemplate => {
+  const tags = (previous?.tags ?? []).filter(t => !(t[0] === 'e' && t[1] === note.id));
+  if (add) tags.push(['e', note.id]);
+  return { kind: 10003, created_at: Math.floor(Date.now() / 1000), tags, content: previous?.content ?? '' };
+};
+
+export const parseFollowSet = (event: NostrEvent): FollowSet => {
+  const id = event.tags.find(t => t[0] === 'd')?.[1] ?? '';
+  return {
+    id,
+    title: event.tags.find(t => t[0] === 'title')?.[1] || id,
+    pubkeys: event.tags.filter(t => t[0] === 'p' && t[1]).map(t => t[1]),
+    event,
+  };
+};
+
+/** The newest version of each set, ordered by title */
+export const parseFollowSets = (events: NostrEvent[]) => {
+  const byId: Record<string, NostrEvent> = {};
+  events.forEach(e => {
+    const id = e.tags.find(t => t[0] === 'd')?.[1] ?? '';
+    if (!byId[id] || byId[id].created_at < e.created_at) byId[id] = e;
+  });
+  return Object.values(byId).map(parseFollowSet).sort((a, b) => a.title.localeCompare(b.title));
+};
+
+export const newFollowSet = (title: string): FollowSet => ({
+  id: `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'list'}-${Date.now().toString(36)}`,
+  title,
+  pubkeys: [],
+  event: null,
+});
+
+/** Unknown tags from other clients (descriptions, images) survive the rewrite */
+export const buildFollowSetTemplate = (set: FollowSet): EventTemplate => ({
+  kind: 30000,
+  created_at: Math.floor(Date.now() / 1000),
+  tags: [
+    ['d', set.id],
+    ['title', set.title],
+    ...(set.event?.tags.filter(t => t[0] !== 'd' && t[0] !== 'title' && t[0] !== 'p') ?? []),
+    ...set.pubkeys.map(pk => ['p', pk]),
+  ],
+  content: set.event?.content ?? '',
+});
+
+/** NIP-09 deletion of the whole set by its address */
+export const buildFollowSetDeletion = (set: FollowSet, pubkey: string): EventTemplate => ({
+  kind: 5,
+  created_at: Math.floor(Date.now() / 1000),
+  tags: [['a', `30000:${pubkey}:${set.id}`]],
+  content: '',
+});
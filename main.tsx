@@ -3,6 +3,15 @@ import ReactDOM from 'react-dom/client';
 import App from './App';
 import './index.css';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { setBlossomServerOverride } from './blossom';
+import { setLnurlEndpointResolver } from './zaps';
+
+// Points every upload at local Blossom servers instead of the user's list (see README)
+if (process.env.BLOSSOM_SERVERS) setBlossomServerOverride(process.env.BLOSSOM_SERVERS.split(',').filter(Boolean));
+
+// Sends every zap to a local mock LNURL-pay endpoint instead of the recipient's wallet
+const lnurlEndpoint = process.env.LNURL_ENDPOINT;
+if (lnurlEndpoint) setLnurlEndpointResolver(() => lnurlEndpoint);
 
 const queryClient = new QueryClient();
 
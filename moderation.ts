@@ -0,0 +1,140 @@
+import { nip10, type Event as NostrEvent, type EventTemplate } from 'nostr-tools';
+import type { Signer } from './signer';
+
+// --- Mute Lists (NIP-51) & Spam Filtering ---
+
+export type MuteKind = 'pubkey' | 'word' | 'hashtag' | 'thread';
+
+export interface MuteEntries {
+  pubkeys: string[];
+  words: string[];
+  hashtags: string[];
+  threads: string[];
+}
+
+export interface MuteList {
+  /** The last published kind 10000, kept so tags we do not manage survive a republish */
+  event: NostrEvent | null;
+  public: MuteEntries;
+  /** Entries encrypted to ourselves; empty when the signer cannot decrypt */
+  private: MuteEntries;
+  /** Set when encrypted entries exist but could not be read; their ciphertext is then kept as is */
+  privateUnreadable: boolean;
+}
+
+export interface SpamSettings {
+  hideNoProfile: boolean;
+  flagFloods: boolean;
+}
+
+export const DEFAULT_SPAM_SETTINGS: SpamSettings = { hideNoProfile: false, flagFloods: true };
+
+// Copies of the same text in one feed before they count as a flood
+const FLOOD_THRESHOLD = 3;
+const MIN_FLOOD_LENGTH = 12;
+
+const MUTE_TAGS: Record<MuteKind, { tag: string, key: keyof MuteEntries }> = {
+  pubkey: { tag: 'p', key: 'pubkeys' },
+  word: { tag: 'word', key: 'words' },
+  hashtag: { tag: 't', key: 'hashtags' },
+  thread: { tag: 'e', key: 'threads' },
+};
+
+export const emptyMuteEntries = (): MuteEntries => ({ pubkeys: [], words: [], hashtags: [], threads: [] });
+
+const entriesFromTags = (tags: string[][]) => {
+  const entries = emptyMuteEntries();
+  tags.forEach(([name, value]) => {
+    const kind = Object.values(MUTE_TAGS).find(m => m.tag === name);
+    if (kind && value) entries[kind.key].push(name === 'word' || name === 't' ? value.toLowerCase() : value);
+  });
+  return entries;
+};
+
+const tagsFromEntries = (entries: MuteEntries) =>
+  Object.values(MUTE_TAGS).flatMap(({ tag, key }) => entries[key].map(value => [tag, value]));
+
+const isManagedTag = (tag: string[]) => Object.values(MUTE_TAGS).some(m => m.tag === tag[0]);
+
+/** Reads public tags and, when the signer can, the private entries in the encrypted content */
+export const parseMuteList = async (event: NostrEvent | null, signer: Signer | null): Promise<MuteList> => {
+  if (!event) return { event: null, public: emptyMuteEntries(), private: emptyMuteEntries(), privateUnreadable: false };
+
+  let privateEntries = emptyMuteEntries();
+  let privateUnreadable = false;
+  if (event.content) {
+    // Lists written before NIP-44 used NIP-04, recognisable by the iv suffix
+    const cipher = event.content.includes('?iv=') ? signer?.nip04 : signer?.nip44;
+    try {
+      if (!signer || !cipher) throw new Error("Signer cannot decrypt this list");
+      privateEntries = entriesFromTags(JSON.parse(await cipher.decrypt(await signer.getPublicKey(), event.content)));
+    } catch (e) {
+      // Timeouts and refusals included: treating them as "no private entries" would erase them on the next save
+      console.warn("Could not decrypt private mute entries", e);
+      privateUnreadable = true;
+    }
+  }
+  return { event, public: entriesFromTags(event.tags), private: privateEntries, privateUnreadable };
+};
+
+export const buildMuteListTemplate = async (list: MuteList, signer: Signer): Promise<EventTemplate> => {
+  const privateTags = tagsFromEntries(list.private);
+  let content = '';
+  if (list.privateUnreadable) {
+    if (privateTags.length > 0) throw new Error("Your private mutes could not be decrypted, so they cannot be changed right now");
+    content = list.event?.content ?? '';
+  } else if (privateTags.length > 0) {
+    if (!signer.nip44) throw new Error("Your signer does not support NIP-44 encryption");
+    content = await signer.nip44.encrypt(await signer.getPublicKey(), JSON.stringify(privateTags));
+  }
+  return {
+    kind: 10000,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [...(list.event?.tags.filter(t => !isManagedTag(t)) ?? []), ...tagsFromEntries(list.public)],
+    content,
+  };
+};
+
+/** Returns a copy with the entry added to (or removed from) the public or private half */
+export const updateMuteList = (list: MuteList, kind: MuteKind, value: string, { remove = false, isPrivate = false } = {}): MuteList => {
+  const { key } = MUTE_TAGS[kind];
+  const normalized = kind === 'word' || kind === 'hashtag' ? value.trim().toLowerCase().replace(/^#/, '') : value.trim();
+  const without = (entries: MuteEntries) => ({ ...entries, [key]: entries[key].filter(v => v !== normalized) });
+  const next = { ...list, public: without(list.public), private: without(list.private) };
+  if (!remove && normalized) {
+    const half = isPrivate ? 'private' : 'public';
+    next[half] = { ...next[half], [key]: [...next[half][key], normalized] };
+  }
+  return next;
+};
+
+export const mergeMuteEntries = (list: MuteList): MuteEntries => ({
+  pubkeys: [...list.public.pubkeys, ...list.private.pubkeys],
+  words: [...list.public.words, ...list.private.words],
+  hashtags: [...list.public.hashtags, ...list.private.hashtags],
+  threads: [...list.public.threads, ...list.private.threads],
+});
+
+export const isMuted = (event: NostrEvent, mutes: MuteEntries) => {
+  if (mutes.pubkeys.includes(event.pubkey)) return true;
+  if (event.tags.some(t => t[0] === 't' && mutes.hashtags.includes(t[1]?.toLowerCase()))) return true;
+  if (mutes.threads.length > 0) {
+    const root = nip10.parse(event).root?.id;
+    if (mutes.threads.includes(event.id) || (root && mutes.threads.includes(root))) return true;
+  }
+  const content = event.content.toLowerCase();
+  return mutes.words.some(word => content.includes(word)) ||
+    mutes.hashtags.some(tag => new RegExp(`(^|\\W)#${tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\W|$)`).test(content));
+};
+
+const normalizeForFlood = (content: string) => content.toLowerCase().replace(/https?:\/\/\S+/g, '').replace(/\s+/g, ' ').trim();
+
+/** Ids of notes whose text shows up several times in the same batch, the usual shape of a spam wave */
+export const findFloods = (events: NostrEvent[]) => {
+  const byText: Record<string, string[]> = {};
+  events.forEach(e => {
+    const text = normalizeForFlood(e.content);
+    if (text.length >= MIN_FLOOD_LENGTH) (byText[text] ??= []).push(e.id);
+  });
+  return new Set(Object.values(byText).filter(ids => ids.length >= FLOOD_THRESHOLD).flat());
+};
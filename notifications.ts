@@ -0,0 +1,91 @@
+import { nip10, type Event as NostrEvent, type Filter } from 'nostr-tools';
+import { getZapReceiptAmount, isValidZapReceipt } from './zaps';
+
+// --- Notifications ---
+
+export type NotificationType = 'mention' | 'reply' | 'reaction' | 'repost' | 'zap';
+
+export interface NostrNotification {
+  id: string;
+  type: NotificationType;
+  /** Who caused it; for zaps this is the sender from the zap request, not the LNURL server */
+  actor: string;
+  created_at: number;
+  /** The note of ours that was replied to, reacted to, reposted or zapped */
+  targetId?: string;
+  sats?: number;
+  event: NostrEvent;
+}
+
+export interface ReadState {
+  /** Everything at or before this time counts as read */
+  readAt: number;
+  ids: string[];
+}
+
+export const NOTIFICATION_KINDS = [1, 6, 7, 16, 9735];
+const READ_STATE_KEY = 'nostr_notifications_read';
+
+export const notificationFilter = (userPk: string, limit = 100): Filter => ({ kinds: NOTIFICATION_KINDS, '#p': [userPk], limit });
+
+const zapSender = (receipt: NostrEvent) => {
+  try {
+    const request = JSON.parse(receipt.tags.find(t => t[0] === 'description')?.[1] ?? '');
+    return typeof request.pubkey === 'string' ? request.pubkey : receipt.pubkey;
+  } catch (e) {
+    return receipt.pubkey;
+  }
+};
+
+// The last `e` tag is the reacted or reposted note (NIP-25 / NIP-18)
+const lastEventTag = (event: NostrEvent) => event.tags.filter(t => t[0] === 'e' && t[1]).pop()?.[1];
+
+/** Sorts an event that p-tags the user into a notification, or null for our own events and forged zap receipts */
+export const classifyNotification = (event: NostrEvent, userPk: string, zapperPubkey: string | null): NostrNotification | null => {
+  const base = { id: event.id, actor: event.pubkey, created_at: event.created_at, event };
+  if (event.kind === 9735) {
+    const actor = zapSender(event);
+    if (actor === userPk || !isValidZapReceipt(event, zapperPubkey)) return null;
+    return { ...base, type: 'zap', actor, targetId: event.tags.find(t => t[0] === 'e')?.[1], sats: getZapReceiptAmount(event) };
+  }
+  if (event.pubkey === userPk) return null;
+  if (event.kind === 7 || event.kind === 6 || event.kind === 16) {
+    // Others in the thread are tagged too; only the last `p` is the author of the note itself
+    if (event.tags.filter(t => t[0] === 'p').pop()?.[1] !== userPk) return null;
+    return { ...base, type: event.kind === 7 ? 'reaction' : 'repost', targetId: lastEventTag(event) };
+  }
+  const { reply, root } = nip10.parse(event);
+  const parent = reply ?? root;
+  return parent ? { ...base, type: 'reply', targetId: parent.id } : { ...base, type: 'mention' };
+};
+
+// A bad stored value only costs the read markers, not the whole notifications view
+const loadAllReadStates = (): Record<string, ReadState> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(READ_STATE_KEY) ?? '{}');
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+export const loadReadState = (userPk: string): ReadState => {
+  const state = loadAllReadStates()[userPk];
+  return typeof state?.readAt === 'number' && Array.isArray(state.ids) ? state : { readAt: 0, ids: [] };
+};
+
+export const saveReadState = (userPk: string, state: ReadState) =>
+  localStorage.setItem(READ_STATE_KEY, JSON.stringify({ ...loadAllReadStates(), [userPk]: state }));
+
+export const isUnread = (notification: NostrNotification, state: ReadState) =>
+  notification.created_at > state.readAt && !state.ids.includes(notification.id);
+
+export const describeNotification = (notification: NostrNotification) => {
+  switch (notification.type) {
+    case 'mention': return "mentioned you";
+    case 'reply': return "replied to your note";
+    case 'reaction': return `reacted ${notification.event.content === '+' ? '❤️' : notification.event.content} to your note`;
+    case 'repost': return "reposted your note";
+    case 'zap': return `zapped you ${notification.sats?.toLocaleString() ?? 0} sats`;
+  }
+};
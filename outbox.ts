@@ -0,0 +1,139 @@
+import type { SimplePool, Filter, Event as NostrEvent, EventTemplate } from 'nostr-tools';
+import { publishOrQueue } from './publishQueue';
+
+// --- Outbox Model (NIP-65) ---
+
+export type RelayMode = 'read' | 'write' | 'both';
+
+export interface RelayList {
+  read: string[];
+  write: string[];
+}
+
+// Enough redundancy to survive a relay being down without fanning out to every relay an author lists
+const RELAYS_PER_AUTHOR = 3;
+const RELAY_LIST_TTL = 600000; // 10 minutes
+const OUTBOX_MAX_WAIT = 5000;
+
+export const parseRelayList = (event: NostrEvent): RelayList => {
+  const list: RelayList = { read: [], write: [] };
+  event.tags.forEach(([name, url, marker]) => {
+    if (name !== 'r' || !/^wss?:\/\//.test(url ?? '')) return;
+    if (marker !== 'write') list.read.push(url);
+    if (marker !== 'read') list.write.push(url);
+  });
+  return list;
+};
+
+/** Kind 10002 template; relays used both ways carry no marker */
+export const buildRelayListTemplate = (relays: string[], modes: Record<string, RelayMode>): EventTemplate => ({
+  kind: 10002,
+  created_at: Math.floor(Date.now() / 1000),
+  tags: relays.map(url => {
+    const mode = modes[url] ?? 'both';
+    return mode === 'both' ? ['r', url] : ['r', url, mode];
+  }),
+  content: '',
+});
+
+// Relay lists are looked up on every author query and publish, so they are kept for a while
+const relayListCache = new Map<string, { list: RelayList | null, fetchedAt: number }>();
+
+export const rememberRelayList = (event: NostrEvent) =>
+  relayListCache.set(event.pubkey, { list: parseRelayList(event), fetchedAt: Date.now() });
+
+/** Latest kind 10002 per pubkey, or null for authors who never published one */
+export const fetchRelayLists = async (pool: SimplePool, relays: string[], pubkeys: string[]) => {
+  const now = Date.now();
+  const stale = pubkeys.filter(pk => {
+    const cached = relayListCache.get(pk);
+    return !cached || now - cached.fetchedAt > RELAY_LIST_TTL;
+  });
+
+  if (stale.length > 0) {
+    const events = await pool.querySync(relays, { kinds: [10002], authors: stale });
+    const newest: Record<string, NostrEvent> = {};
+    events.forEach(e => {
+      if (!newest[e.pubkey] || newest[e.pubkey].created_at < e.created_at) newest[e.pubkey] = e;
+    });
+    stale.forEach(pk => relayListCache.set(pk, { list: newest[pk] ? parseRelayList(newest[pk]) : null, fetchedAt: now }));
+  }
+
+  return Object.fromEntries(pubkeys.map(pk => [pk, relayListCache.get(pk)?.list ?? null])) as Record<string, RelayList | null>;
+};
+
+/** Like querySync, but tells an EOSE apart from a timeout or a closed connection */
+const queryRelay = (pool: SimplePool, url: string, filter: Filter) => new Promise<{ events: NostrEvent[], answered: boolean }>(resolve => {
+  const events: NostrEvent[] = [];
+  let sub: ReturnType<SimplePool['subscribe']> | undefined;
+  let done = false;
+  const finish = (answered: boolean) => {
+    if (done) return;
+    done = true;
+    clearTimeout(timer);
+    sub?.close();
+    resolve({ events, answered });
+  };
+  const timer = setTimeout(() => finish(false), OUTBOX_MAX_WAIT);
+  // The pool's own EOSE timeout would look like an answer, so ours has to fire first
+  sub = pool.subscribe([url], filter, {
+    onevent: (e) => { events.push(e); },
+    oneose: () => finish(true),
+    onclose: () => finish(false),
+    maxWait: OUTBOX_MAX_WAIT + 1000,
+  });
+});
+
+const runOutbox = async (pool: SimplePool, relays: string[], filter: Filter & { authors: string[] }) => {
+  const lists = await fetchRelayLists(pool, relays, filter.authors);
+  const authorsByRelay: Record<string, string[]> = {};
+  filter.authors.forEach(pk => {
+    const write = lists[pk]?.write.slice(0, RELAYS_PER_AUTHOR) ?? [];
+    (write.length > 0 ? write : relays).forEach(url => (authorsByRelay[url] ??= []).push(pk));
+  });
+
+  const batches = await Promise.all(Object.entries(authorsByRelay).map(([url, authors]) =>
+    queryRelay(pool, url, { ...filter, authors })
+  ));
+  const unique: Record<string, NostrEvent> = {};
+  batches.flatMap(b => b.events).forEach(e => { unique[e.id] = e; });
+  return { events: Object.values(unique), answered: batches.some(b => b.answered) };
+};
+
+/** Runs an author filter against each author's write relays; authors without a list are asked on `relays` */
+export const queryOutbox = async (pool: SimplePool, relays: string[], filter: Filter & { authors: string[] }) =>
+  (await runOutbox(pool, relays, filter)).events;
+
+/**
+ * queryOutbox for lists we are about to rewrite: throws when no relay answered,
+ * since an empty result then says nothing about whether the list exists.
+ */
+export const queryOutboxStrict = async (pool: SimplePool, relays: string[], filter: Filter & { authors: string[] }) => {
+  const { events, answered } = await runOutbox(pool, relays, filter);
+  if (!answered) throw new Error("None of your relays answered, so your current list could not be loaded. Try again later.");
+  return events;
+};
+
+/** Our own write relays plus the read relays of everyone the event tags */
+export const getPublishRelays = async (pool: SimplePool, relays: string[], event: NostrEvent) => {
+  const mentioned = Array.from(new Set(
+    event.tags.filter(t => t[0] === 'p' && t[1] && t[1] !== event.pubkey).map(t => t[1])
+  ));
+  const lists = await fetchRelayLists(pool, relays, [event.pubkey, ...mentioned]);
+  const own = lists[event.pubkey]?.write ?? [];
+  const inboxes = mentioned.flatMap(pk => lists[pk]?.read.slice(0, RELAYS_PER_AUTHOR) ?? []);
+  return Array.from(new Set([...(own.length > 0 ? own : relays), ...inboxes]));
+};
+
+/** Where others send events that tag us: our NIP-65 read relays alongside the configured ones */
+export const getInboxRelays = async (pool: SimplePool, relays: string[], pubkey: string) => {
+  const list = (await fetchRelayLists(pool, relays, [pubkey]))[pubkey];
+  return Array.from(new Set([...(list?.read ?? []), ...relays]));
+};
+
+/** Publishes to the outbox targets; relays that fail for network reasons are retried from the queue */
+export const publishOutbox = async (pool: SimplePool, relays: string[], event: NostrEvent) => {
+  // Relay lists cannot be looked up offline, so the queued copy goes to our own relays
+  const targets = navigator.onLine ? await getPublishRelays(pool, relays, event) : relays;
+  return publishOrQueue(pool, targets, event);
+};
@@ -0,0 +1,148 @@
+import type { SimplePool, Event as NostrEvent } from 'nostr-tools';
+
+// --- Publish Reporting & Retry Outbox ---
+
+export type PublishStatus = 'ok' | 'rejected' | 'timeout' | 'offline';
+
+export interface PublishResult {
+  relay: string;
+  status: PublishStatus;
+  reason?: string;
+  /** Left in the retry queue rather than given up on */
+  queued?: boolean;
+}
+
+export interface QueuedPublish {
+  event: NostrEvent;
+  /** Relays that still have not accepted the event */
+  relays: string[];
+  attempts: number;
+  nextAttempt: number;
+  lastError?: string;
+}
+
+const STORAGE_KEY = 'nostr_publish_queue';
+const PUBLISH_TIMEOUT = 10000;
+const RETRY_BASE_MS = 10000;
+const RETRY_MAX_MS = 600000; // 10 minutes
+const MAX_ATTEMPTS = 8;
+const TICK_MS = 5000;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) => Promise.race([
+  promise,
+  new Promise<never>((_, reject) => setTimeout(() => reject(new Error("publish timed out")), ms)),
+]);
+
+// Anything that looks like the network rather than a policy decision is worth another try
+const isRetryable = (reason: string) => /timed out|timeout|connect|closed|network|rate-limited|websocket/i.test(reason);
+
+/** Sends to every relay and reports each one, instead of stopping at the first OK */
+export const publishWithReport = async (pool: SimplePool, relays: string[], event: NostrEvent): Promise<PublishResult[]> => {
+  const settled = await Promise.allSettled(pool.publish(relays, event).map(p => withTimeout(p, PUBLISH_TIMEOUT)));
+  return settled.map((result, i) => {
+    if (result.status === 'fulfilled') return { relay: relays[i], status: 'ok' };
+    const reason = result.reason?.message ?? String(result.reason);
+    return { relay: relays[i], status: /timed out|timeout/i.test(reason) ? 'timeout' : 'rejected', reason };
+  });
+};
+
+// Runs at import time, so corrupt or hand-edited storage must not keep the app from booting
+const loadQueue = (): QueuedPublish[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+let queue = loadQueue();
+const listeners = new Set<() => void>();
+
+const save = (next: QueuedPublish[]) => {
+  queue = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  listeners.forEach(l => l());
+};
+
+export const subscribePublishQueue = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getPublishQueue = () => queue;
+
+const backoff = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** attempts, RETRY_MAX_MS);
+
+export const enqueuePublish = (event: NostrEvent, relays: string[], lastError?: string) => {
+  if (relays.length === 0) return;
+  const existing = queue.find(q => q.event.id === event.id);
+  const merged = Array.from(new Set([...(existing?.relays ?? []), ...relays]));
+  save([
+    ...queue.filter(q => q.event.id !== event.id),
+    { event, relays: merged, attempts: existing?.attempts ?? 0, nextAttempt: Date.now() + (navigator.onLine ? backoff(0) : 0), lastError },
+  ]);
+};
+
+export const dropQueuedPublish = (id: string) => save(queue.filter(q => q.event.id !== id));
+
+let isFlushing = false;
+
+/** Retries every due entry; `force` ignores the backoff schedule */
+export const flushPublishQueue = async (pool: SimplePool, force = false) => {
+  if (isFlushing || !navigator.onLine) return;
+  isFlushing = true;
+  try {
+    const now = Date.now();
+    for (const entry of queue.filter(q => force || q.nextAttempt <= now)) {
+      const results = await publishWithReport(pool, entry.relays, entry.event);
+      const remaining = results.filter(r => r.status !== 'ok' && isRetryable(r.reason ?? '')).map(r => r.relay);
+      const attempts = entry.attempts + 1;
+      const rest = queue.filter(q => q.event.id !== entry.event.id);
+      if (remaining.length === 0 || attempts >= MAX_ATTEMPTS) {
+        save(rest);
+      } else {
+        save([...rest, {
+          ...entry,
+          relays: remaining,
+          attempts,
+          nextAttempt: Date.now() + backoff(attempts),
+          lastError: results.find(r => r.status !== 'ok')?.reason,
+        }]);
+      }
+    }
+  } finally {
+    isFlushing = false;
+  }
+};
+
+/** Keeps retrying in the background and flushes as soon as the browser is back online */
+export const startPublishQueue = (pool: SimplePool) => {
+  const flush = () => flushPublishQueue(pool);
+  const forceFlush = () => flushPublishQueue(pool, true);
+  const timer = setInterval(flush, TICK_MS);
+  window.addEventListener('online', forceFlush);
+  return () => {
+    clearInterval(timer);
+    window.removeEventListener('online', forceFlush);
+  };
+};
+
+/**
+ * Publishes with a per-relay report. Retryable failures, and everything while offline,
+ * go to the persistent queue instead of failing the post.
+ */
+export const publishOrQueue = async (pool: SimplePool, relays: string[], event: NostrEvent): Promise<PublishResult[]> => {
+  if (!navigator.onLine) {
+    enqueuePublish(event, relays, "offline");
+    return relays.map(relay => ({ relay, status: 'offline', queued: true }));
+  }
+
+  const results = await publishWithReport(pool, relays, event);
+  const retry = results.filter(r => r.status !== 'ok' && isRetryable(r.reason ?? ''));
+  enqueuePublish(event, retry.map(r => r.relay), retry[0]?.reason);
+  if (retry.length === 0 && results.every(r => r.status !== 'ok')) {
+    throw new Error(`Every relay rejected the event: ${results[0]?.reason ?? "no relays"}`);
+  }
+  return results.map(r => retry.includes(r) ? { ...r, queued: true } : r);
+};
@@ -0,0 +1,154 @@
+import type { SimplePool } from 'nostr-tools';
+import type { AbstractRelay } from 'nostr-tools/abstract-relay';
+import { normalizeURL } from 'nostr-tools/utils';
+
+// --- Relay Health ---
+
+export type RelayState = 'idle' | 'connecting' | 'connected' | 'disconnected' | 'error';
+
+export interface RelayStats {
+  state: RelayState;
+  /** Round-trip time of the last probe, or the connect time until one has run */
+  latency?: number;
+  eventsReceived: number;
+  publishOk: number;
+  publishFailed: number;
+  lastError?: string;
+}
+
+// Above this a relay is offered for disabling
+export const SLOW_RELAY_MS = 2000;
+const PROBE_TIMEOUT = 8000;
+const NOTIFY_DELAY = 500;
+
+const emptyStats = (): RelayStats => ({ state: 'idle', eventsReceived: 0, publishOk: 0, publishFailed: 0 });
+
+let snapshot: Record<string, RelayStats> = {};
+const listeners = new Set<() => void>();
+let notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Events can arrive by the hundred, so listeners hear about them in batches
+const update = (url: string, change: (stats: RelayStats) => Partial<RelayStats>) => {
+  const key = normalizeURL(url);
+  const current = snapshot[key] ?? emptyStats();
+  snapshot = { ...snapshot, [key]: { ...current, ...change(current) } };
+  notifyTimer ??= setTimeout(() => {
+    notifyTimer = null;
+    listeners.forEach(l => l());
+  }, NOTIFY_DELAY);
+};
+
+export const subscribeRelayStats = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getRelayStats = () => snapshot;
+
+export const statsFor = (stats: Record<string, RelayStats>, url: string) => {
+  try {
+    return stats[normalizeURL(url)] ?? emptyStats();
+  } catch (e) {
+    return emptyStats();
+  }
+};
+
+export const isRelayUnhealthy = (stats: RelayStats) =>
+  stats.state === 'error' || (stats.latency !== undefined && stats.latency > SLOW_RELAY_MS);
+
+const instrumented = new WeakSet<AbstractRelay>();
+
+const instrumentRelay = (relay: AbstractRelay) => {
+  if (instrumented.has(relay)) return;
+  instrumented.add(relay);
+
+  const subscribe = relay.subscribe.bind(relay);
+  relay.subscribe = (filters, params) => subscribe(filters, {
+    ...params,
+    onevent: (event) => {
+      update(relay.url, s => ({ eventsReceived: s.eventsReceived + 1 }));
+      params.onevent?.(event);
+    },
+  });
+
+  const publish = relay.publish.bind(relay);
+  relay.publish = async (event) => {
+    try {
+      const reason = await publish(event);
+      update(relay.url, s => ({ publishOk: s.publishOk + 1 }));
+      return reason;
+    } catch (e: any) {
+      update(relay.url, s => ({ publishFailed: s.publishFailed + 1, lastError: e?.message ?? String(e) }));
+      throw e;
+    }
+  };
+
+  const onclose = relay.onclose;
+  relay.onclose = () => {
+    update(relay.url, () => ({ state: 'disconnected' }));
+    onclose?.();
+  };
+  relay.onnotice = (msg) => update(relay.url, () => ({ lastError: `NOTICE: ${msg}` }));
+};
+
+/** Hooks the pool's connections so every query and publish feeds the health stats */
+export const instrumentPool = (pool: SimplePool) => {
+  const ensureRelay = pool.ensureRelay.bind(pool);
+  pool.ensureRelay = async (url, params) => {
+    const started = Date.now();
+    const known = snapshot[normalizeURL(url)];
+    if (known?.state !== 'connected') update(url, () => ({ state: 'connecting' }));
+    try {
+      const relay = await ensureRelay(url, params);
+      instrumentRelay(relay);
+      update(url, s => ({ state: 'connected', latency: s.state === 'connected' ? s.latency : Date.now() - started }));
+      return relay;
+    } catch (e: any) {
+      update(url, () => ({ state: 'error', lastError: e?.message ?? String(e) }));
+      throw e;
+    }
+  };
+  return pool;
+};
+
+/** Times a REQ that can only ever return EOSE */
+export const probeRelay = async (pool: SimplePool, url: string) => {
+  try {
+    const relay = await pool.ensureRelay(url, { connectionTimeout: PROBE_TIMEOUT });
+    const started = Date.now();
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        sub.close();
+        reject(new Error("Probe timed out"));
+      }, PROBE_TIMEOUT);
+      const sub = relay.subscribe([{ ids: ['0'.repeat(64)], limit: 1 }], {
+        oneose: () => {
+          clearTimeout(timer);
+          sub.close();
+          resolve();
+        },
+        onclose: (reason) => {
+          clearTimeout(timer);
+          reject(new Error(reason));
+        },
+      });
+    });
+    update(url, () => ({ latency: Date.now() - started }));
+  } catch (e: any) {
+    update(url, () => ({ state: 'error', lastError: e?.message ?? String(e) }));
+  }
+};
+
+/** Only secure websocket URLs are accepted; returns the normalized URL or throws */
+export const validateRelayUrl = (input: string) => {
+  const trimmed = input.trim();
+  if (!trimmed.startsWith('wss://')) throw new Error("Relay URLs must start with wss://");
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch (e) {
+    throw new Error("That is not a valid relay URL");
+  }
+  if (!url.hostname.includes('.')) throw new Error("That is not a valid relay URL");
+  return trimmed.replace(/\/+$/, '');
+};
@@ -0,0 +1,48 @@
+import { nip05, nip19, type SimplePool, type Event as NostrEvent, type Filter } from 'nostr-tools';
+import { eventStore } from './eventStore';
+
+// --- Search (NIP-50) ---
+
+export const DEFAULT_SEARCH_RELAYS = ['wss://relay.nostr.band', 'wss://search.nos.today'];
+const SEARCH_MAX_WAIT = 6000;
+
+export type SearchTarget =
+  | { type: 'profile', pointer: nip19.ProfilePointer }
+  | { type: 'event', pointer: nip19.EventPointer }
+  | { type: 'address', pointer: nip19.AddressPointer };
+
+/** npub, nprofile, note, nevent and naddr strings (with or without `nostr:`), or a NIP-05 address */
+export const resolveIdentifier = async (input: string): Promise<SearchTarget | null> => {
+  const code = input.trim().replace(/^nostr:/, '');
+  if (/^(npub|nprofile|note|nevent|naddr)1/.test(code)) {
+    try {
+      const decoded = nip19.decode(code);
+      switch (decoded.type) {
+        case 'npub': return { type: 'profile', pointer: { pubkey: decoded.data } };
+        case 'nprofile': return { type: 'profile', pointer: decoded.data };
+        case 'note': return { type: 'event', pointer: { id: decoded.data } };
+        case 'nevent': return { type: 'event', pointer: decoded.data };
+        case 'naddr': return { type: 'address', pointer: decoded.data };
+      }
+    } catch (e) {
+      return null;
+    }
+  }
+  // A bare domain is shorthand for its `_@domain` root identifier
+  const address = code.includes('@') ? code : /^[\w-]+(\.[\w-]+)+$/.test(code) ? `_@${code}` : null;
+  if (address && nip05.isNip05(address)) {
+    const pointer = await nip05.queryProfile(address).catch(() => null);
+    return pointer ? { type: 'profile', pointer } : null;
+  }
+  return null;
+};
+
+/** Runs a NIP-50 filter on the search relays, or over the local cache when there are none */
+export const searchEvents = async (pool: SimplePool, searchRelays: string[], filter: Filter & { search: string }) => {
+  if (searchRelays.length === 0) return eventStore.query(filter);
+  const events = await pool.querySync(searchRelays, filter, { maxWait: SEARCH_MAX_WAIT });
+  eventStore.add(events);
+  const unique: Record<string, NostrEvent> = {};
+  events.forEach(e => { unique[e.id] = e; });
+  return Object.values(unique);
+};
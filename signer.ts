@@ -0,0 +1,192 @@
+import {
+  finalizeEvent,
+  generateSecretKey,
+  getPublicKey,
+  nip04,
+  nip44,
+  type SimplePool,
+  type Event as NostrEvent,
+  type EventTemplate
+} from 'nostr-tools';
+import { BunkerSigner, createNostrConnectURI, parseBunkerInput } from 'nostr-tools/nip46';
+import * as nip49 from 'nostr-tools/nip49';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+
+// --- Signers (local key, NIP-07, NIP-46) ---
+
+export type SignerType = 'local' | 'nip07' | 'nip46';
+
+export interface Cipher {
+  encrypt(pubkey: string, plaintext: string): Promise<string>;
+  decrypt(pubkey: string, ciphertext: string): Promise<string>;
+}
+
+/** Everything the app needs from whoever holds the user's key */
+export interface Signer {
+  type: SignerType;
+  getPublicKey(): Promise<string>;
+  signEvent(template: EventTemplate): Promise<NostrEvent>;
+  nip04?: Cipher;
+  nip44?: Cipher;
+  close?(): Promise<void>;
+}
+
+export const NOSTR_CONNECT_RELAYS = ['wss://relay.nsec.app', 'wss://relay.damus.io'];
+
+const BUNKER_STORAGE_KEY = 'nostr_bunker';
+
+/** Signs with a secret key held in memory */
+export const createLocalSigner = (secretKey: Uint8Array): Signer => ({
+  type: 'local',
+  getPublicKey: async () => getPublicKey(secretKey),
+  signEvent: async (template) => finalizeEvent(template, secretKey),
+  nip04: {
+    encrypt: async (pubkey, plaintext) => nip04.encrypt(secretKey, pubkey, plaintext),
+    decrypt: async (pubkey, ciphertext) => nip04.decrypt(secretKey, pubkey, ciphertext),
+  },
+  nip44: {
+    encrypt: async (pubkey, plaintext) => nip44.encrypt(plaintext, nip44.getConversationKey(secretKey, pubkey)),
+    decrypt: async (pubkey, ciphertext) => nip44.decrypt(ciphertext, nip44.getConversationKey(secretKey, pubkey)),
+  },
+});
+
+/** Defers to the browser extension; `window.nostr` is looked up on every call since extensions inject late */
+export const createNip07Signer = (): Signer => {
+  const ext = () => {
+    const nostr = (window as any).nostr;
+    if (!nostr) throw new Error("Nostr extension not found");
+    return nostr;
+  };
+  const cipher = (name: 'nip04' | 'nip44'): Cipher => ({
+    encrypt: async (pubkey, plaintext) => {
+      if (!ext()[name]) throw new Error(`Extension does not support ${name.toUpperCase()}`);
+      return ext()[name].encrypt(pubkey, plaintext);
+    },
+    decrypt: async (pubkey, ciphertext) => {
+      if (!ext()[name]) throw new Error(`Extension does not support ${name.toUpperCase()}`);
+      return ext()[name].decrypt(pubkey, ciphertext);
+    },
+  });
+  return {
+    type: 'nip07',
+    getPublicKey: async () => ext().getPublicKey(),
+    signEvent: async (template) => ext().signEvent(template),
+    nip04: cipher('nip04'),
+    nip44: cipher('nip44'),
+  };
+};
+
+const wrapBunker = (bunker: BunkerSigner): Signer => ({
+  type: 'nip46',
+  getPublicKey: () => bunker.getPublicKey(),
+  signEvent: (template) => bunker.signEvent(template),
+  nip04: {
+    encrypt: (pubkey, plaintext) => bunker.nip04Encrypt(pubkey, plaintext),
+    decrypt: (pubkey, ciphertext) => bunker.nip04Decrypt(pubkey, ciphertext),
+  },
+  nip44: {
+    encrypt: (pubkey, plaintext) => bunker.nip44Encrypt(pubkey, plaintext),
+    decrypt: (pubkey, ciphertext) => bunker.nip44Decrypt(pubkey, ciphertext),
+  },
+  close: () => bunker.close(),
+});
+
+// Only the throwaway client key and the bunker pointer are persisted, never the user's key
+const saveBunkerSession = (clientSecretKey: Uint8Array, bunker: BunkerSigner) => {
+  localStorage.setItem(BUNKER_STORAGE_KEY, JSON.stringify({
+    clientSk: bytesToHex(clientSecretKey),
+    pointer: { pubkey: bunker.bp.pubkey, relays: bunker.bp.relays },
+  }));
+};
+
+export const clearBunkerSession = () => localStorage.removeItem(BUNKER_STORAGE_KEY);
+
+const openAuthUrl = (url: string) => window.open(url, '_blank', 'width=600,height=700');
+
+/** Connects to a remote signer from a bunker:// URI or a NIP-05 identifier */
+export const connectBunker = async (input: string, pool: SimplePool): Promise<Signer> => {
+  const pointer = await parseBunkerInput(input.trim());
+  if (!pointer) throw new Error("Invalid bunker:// URI");
+  if (pointer.relays.length === 0) throw new Error("Bunker URI has no relays");
+
+  const clientSecretKey = generateSecretKey();
+  const bunker = BunkerSigner.fromBunker(clientSecretKey, pointer, { pool, onauth: openAuthUrl });
+  await bunker.connect();
+  saveBunkerSession(clientSecretKey, bunker);
+  return wrapBunker(bunker);
+};
+
+/** Starts a nostrconnect:// handshake; the returned URI is shown as a QR code for the signer app to scan */
+export const startNostrConnect = (pool: SimplePool, relays: string[] = NOSTR_CONNECT_RELAYS) => {
+  const clientSecretKey = generateSecretKey();
+  const secret = bytesToHex(generateSecretKey()).substring(0, 16);
+  const uri = createNostrConnectURI({
+    clientPubkey: getPublicKey(clientSecretKey),
+    relays,
+    secret,
+    name: 'Nostalgia',
+    perms: ['sign_event', 'nip04_encrypt', 'nip04_decrypt', 'nip44_encrypt', 'nip44_decrypt'],
+  });
+  const controller = new AbortController();
+
+  const connected = BunkerSigner.fromURI(clientSecretKey, uri, { pool, onauth: openAuthUrl }, controller.signal)
+    .then(bunker => {
+      saveBunkerSession(clientSecretKey, bunker);
+      return wrapBunker(bunker);
+    });
+
+  return { uri, connected, cancel: () => controller.abort() };
+};
+
+/** Rebuilds a remote signer from the session saved by a previous login */
+export const restoreBunkerSigner = (pool: SimplePool): Signer | null => {
+  const saved = localStorage.getItem(BUNKER_STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    const { clientSk, pointer } = JSON.parse(saved);
+    return wrapBunker(BunkerSigner.fromBunker(hexToBytes(clientSk), { ...pointer, secret: null }, { pool, onauth: openAuthUrl }));
+  } catch (e) {
+    console.warn("Could not restore remote signer session", e);
+    return null;
+  }
+};
+
+// --- Encrypted key storage (NIP-49) ---
+
+const NCRYPTSEC_STORAGE_KEY = 'nostr_ncryptsec';
+const LEGACY_SK_STORAGE_KEY = 'nostr_sk';
+
+export const getStoredNcryptsec = () => localStorage.getItem(NCRYPTSEC_STORAGE_KEY);
+
+/** Hex key left behind by builds that stored it in plaintext; only read so it can be migrated */
+export const getLegacyStoredKey = () => localStorage.getItem(LEGACY_SK_STORAGE_KEY);
+
+/** Encrypts the key with the passphrase and persists only the ncryptsec */
+export const storeEncryptedKey = (secretKey: Uint8Array, passphrase: string) => {
+  const ncryptsec = nip49.encrypt(secretKey, passphrase);
+  localStorage.setItem(NCRYPTSEC_STORAGE_KEY, ncryptsec);
+  localStorage.removeItem(LEGACY_SK_STORAGE_KEY);
+  return ncryptsec;
+};
+
+/** Persists an imported ncryptsec after checking the passphrase opens it */
+export const importNcryptsec = (ncryptsec: string, passphrase: string) => {
+  if (!ncryptsec.trim().startsWith('ncryptsec1')) throw new Error("Not an ncryptsec key");
+  const secretKey = unlockNcryptsec(ncryptsec.trim(), passphrase);
+  localStorage.setItem(NCRYPTSEC_STORAGE_KEY, ncryptsec.trim());
+  localStorage.removeItem(LEGACY_SK_STORAGE_KEY);
+  return secretKey;
+};
+
+export const unlockNcryptsec = (ncryptsec: string, passphrase: string) => {
+  try {
+    return nip49.decrypt(ncryptsec, passphrase);
+  } catch (e) {
+    throw new Error("Incorrect password");
+  }
+};
+
+export const clearStoredKey = () => {
+  localStorage.removeItem(NCRYPTSEC_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_SK_STORAGE_KEY);
+};
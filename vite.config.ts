@@ -14,7 +14,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react(), tailwindcss()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Optional local stand-ins, e.g. BLOSSOM_SERVERS=http://localhost:3001,http://localhost:3002
+        'process.env.BLOSSOM_SERVERS': JSON.stringify(env.BLOSSOM_SERVERS ?? ''),
+        // e.g. LNURL_ENDPOINT=http://localhost:3003/.well-known/lnurlp/test
+        'process.env.LNURL_ENDPOINT': JSON.stringify(env.LNURL_ENDPOINT ?? '')
       },
       resolve: {
         alias: {
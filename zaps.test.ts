@@ -0,0 +1,111 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { finalizeEvent, generateSecretKey, getPublicKey, nip57 } from 'nostr-tools';
+import { fetchLnurlPayInfo, fetchZapInvoice, fetchZapperPubkey, resolveLnurlEndpoint, setLnurlEndpointResolver, sumZapReceipts } from './zaps';
+
+// --- Mock LNURL server ---
+
+const walletKey = generateSecretKey();
+const senderKey = generateSecretKey();
+
+let server: Server;
+let base: string;
+// Zap requests the callback was asked to pay
+const requested: { amount: number, zapRequest: any }[] = [];
+// Makes the callback answer with an invoice for more than was asked
+let overcharge = false;
+
+// Long enough for the amount to be decoded; 10n is one sat
+const mockInvoice = (amountMsats: number) => `lnbc${amountMsats / 100}n1${'p'.repeat(50)}`;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', base);
+    const json = (body: unknown) => res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    if (url.pathname === '/.well-known/lnurlp/alice') {
+      return json({
+        tag: 'payRequest',
+        callback: `${base}/callback`,
+        minSendable: 1000,
+        maxSendable: 1000000,
+        allowsNostr: true,
+        nostrPubkey: getPublicKey(walletKey),
+      });
+    }
+    if (url.pathname === '/callback') {
+      const amount = Number(url.searchParams.get('amount'));
+      requested.push({ amount, zapRequest: JSON.parse(url.searchParams.get('nostr') ?? 'null') });
+      return json({ pr: mockInvoice(overcharge ? amount * 100 : amount), routes: [] });
+    }
+    json({ status: 'ERROR', reason: "Unknown user" });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(() => {
+  requested.length = 0;
+  overcharge = false;
+  setLnurlEndpointResolver(null);
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+// --- Tests ---
+
+describe('zaps', () => {
+  it('resolves lightning addresses, using plain http only for local servers', () => {
+    expect(resolveLnurlEndpoint({ lud16: 'alice@example.com' })).toBe('https://example.com/.well-known/lnurlp/alice');
+    expect(resolveLnurlEndpoint({ lud16: 'alice@localhost:3003' })).toBe('http://localhost:3003/.well-known/lnurlp/alice');
+    expect(resolveLnurlEndpoint({})).toBeNull();
+  });
+
+  it('fetches an invoice for a signed zap request from the mock server', async () => {
+    setLnurlEndpointResolver(() => `${base}/.well-known/lnurlp/alice`);
+    const info = await fetchLnurlPayInfo({ lud16: 'alice@example.com' });
+    expect(info.nostrPubkey).toBe(getPublicKey(walletKey));
+
+    const zapRequest = finalizeEvent(nip57.makeZapRequest({ pubkey: getPublicKey(walletKey), amount: 21000, relays: [] }), senderKey);
+    expect(await fetchZapInvoice(info, zapRequest, 21000)).toBe(mockInvoice(21000));
+    expect(requested.map(r => [r.amount, r.zapRequest.id])).toEqual([[21000, zapRequest.id]]);
+  });
+
+  it('refuses an invoice for a different amount than the zap', async () => {
+    setLnurlEndpointResolver(() => `${base}/.well-known/lnurlp/alice`);
+    overcharge = true;
+    const info = await fetchLnurlPayInfo({});
+    const zapRequest = finalizeEvent(nip57.makeZapRequest({ pubkey: getPublicKey(walletKey), amount: 21000, relays: [] }), senderKey);
+    await expect(fetchZapInvoice(info, zapRequest, 21000)).rejects.toThrow(/different amount/);
+  });
+
+  it('refuses amounts outside the server limits', async () => {
+    setLnurlEndpointResolver(() => `${base}/.well-known/lnurlp/alice`);
+    const info = await fetchLnurlPayInfo({});
+    const zapRequest = finalizeEvent(nip57.makeZapRequest({ pubkey: getPublicKey(walletKey), amount: 1, relays: [] }), senderKey);
+    await expect(fetchZapInvoice(info, zapRequest, 1)).rejects.toThrow(/between 1 and 1000 sats/);
+    expect(requested).toEqual([]);
+  });
+
+  it('reports LNURL errors', async () => {
+    setLnurlEndpointResolver(() => `${base}/.well-known/lnurlp/bob`);
+    await expect(fetchLnurlPayInfo({})).rejects.toThrow("Unknown user");
+    expect(await fetchZapperPubkey({})).toBeNull();
+  });
+
+  it('only counts receipts signed by the recipient wallet', async () => {
+    setLnurlEndpointResolver(() => `${base}/.well-known/lnurlp/alice`);
+    const zapper = await fetchZapperPubkey({ lud16: 'alice@example.com' });
+    const receipt = (key: Uint8Array, amount: number) => finalizeEvent({
+      kind: 9735,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [['e', 'note'], ['p', getPublicKey(walletKey)], ['description', JSON.stringify({ tags: [['amount', String(amount * 1000)]] })]],
+      content: '',
+    }, key);
+
+    const genuine = receipt(walletKey, 21);
+    const forged = receipt(senderKey, 1000000);
+    expect(sumZapReceipts([genuine, genuine, forged], { note: zapper })).toEqual({ note: 21 });
+    expect(sumZapReceipts([genuine], { note: null })).toEqual({});
+  });
+});
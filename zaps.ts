@@ -0,0 +1,145 @@
+import { bech32 } from '@scure/base';
+import { nip57, type Event as NostrEvent, type EventTemplate } from 'nostr-tools';
+
+// --- Lightning Zaps (NIP-57) ---
+
+export interface LnurlPayInfo {
+  callback: string;
+  minSendable: number;
+  maxSendable: number;
+  allowsNostr?: boolean;
+  nostrPubkey?: string;
+  commentAllowed?: number;
+}
+
+export type LightningProfile = { lud06?: string, lud16?: string };
+
+/** Turns a kind 0 lightning address into the LNURL-pay URL that should be queried */
+export type LnurlEndpointResolver = (profile: LightningProfile) => string | null;
+
+export const resolveLnurlEndpoint: LnurlEndpointResolver = ({ lud06, lud16 }) => {
+  if (lud16 && lud16.includes('@')) {
+    const [name, domain] = lud16.trim().split('@');
+    // Plain http is only ever used for local mock servers
+    const protocol = /^(localhost|127\.0\.0\.1)(:\d+)?$/.test(domain) ? 'http' : 'https';
+    return `${protocol}://${domain}/.well-known/lnurlp/${encodeURIComponent(name)}`;
+  }
+  if (lud06) {
+    try {
+      const { words } = bech32.decode(lud06.trim().toLowerCase() as `${string}1${string}`, 2000);
+      return new TextDecoder().decode(bech32.fromWords(words));
+    } catch (e) {
+      return null;
+    }
+  }
+  return null;
+};
+
+let endpointResolver: LnurlEndpointResolver = resolveLnurlEndpoint;
+
+/** Replaces how lightning addresses are resolved, e.g. to point every zap at a local mock LNURL server */
+export const setLnurlEndpointResolver = (resolver: LnurlEndpointResolver | null) => {
+  endpointResolver = resolver ?? resolveLnurlEndpoint;
+};
+
+const fetchLnurlJson = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`LNURL request failed (${response.status})`);
+  const body = await response.json();
+  if (body.status === 'ERROR') throw new Error(body.reason || "LNURL server returned an error");
+  return body;
+};
+
+/** Fetches the LNURL-pay parameters for a profile's lightning address */
+export const fetchLnurlPayInfo = async (profile: LightningProfile): Promise<LnurlPayInfo> => {
+  const url = endpointResolver(profile);
+  if (!url) throw new Error("This user has no lightning address");
+  const body = await fetchLnurlJson(url);
+  if (body.tag !== 'payRequest' || !body.callback) throw new Error("Not an LNURL-pay endpoint");
+  return body;
+};
+
+/** Asks the LNURL callback for a bolt11 invoice carrying the signed kind 9734 zap request */
+export const fetchZapInvoice = async (info: LnurlPayInfo, zapRequest: NostrEvent, amountMsats: number): Promise<string> => {
+  if (!info.allowsNostr || !info.nostrPubkey) throw new Error("Recipient's wallet does not support zaps");
+  if (amountMsats < info.minSendable || amountMsats > info.maxSendable) {
+    throw new Error(`Amount must be between ${Math.ceil(info.minSendable / 1000)} and ${Math.floor(info.maxSendable / 1000)} sats`);
+  }
+
+  const url = new URL(info.callback);
+  url.searchParams.set('amount', amountMsats.toString());
+  url.searchParams.set('nostr', JSON.stringify(zapRequest));
+  const body = await fetchLnurlJson(url.toString());
+  if (!body.pr) throw new Error("LNURL server did not return an invoice");
+  // The wallet pays whatever the invoice says, so it must be for exactly the amount we asked for (NIP-57)
+  if (nip57.getSatoshisAmountFromBolt11(body.pr) !== amountMsats / 1000) throw new Error("LNURL server returned an invoice for a different amount");
+  return body.pr;
+};
+
+/** Pays a bolt11 invoice through the browser's WebLN provider */
+export const payInvoice = async (invoice: string) => {
+  const webln = (window as any).webln;
+  if (!webln) throw new Error("Please install a WebLN wallet (like Alby) to Zap!");
+  await webln.enable();
+  await webln.sendPayment(invoice);
+};
+
+/** Full zap flow: resolve LNURL, sign the zap request, fetch the invoice and pay it */
+export const zapEvent = async ({ event, profile, amountSats, comment, relays, sign }: {
+  event: NostrEvent,
+  profile: LightningProfile,
+  amountSats: number,
+  comment?: string,
+  relays: string[],
+  sign: (template: EventTemplate) => Promise<NostrEvent>
+}) => {
+  if (!(window as any).webln) throw new Error("Please install a WebLN wallet (like Alby) to Zap!");
+  const amountMsats = Math.round(amountSats * 1000);
+  const info = await fetchLnurlPayInfo(profile);
+  const zapRequest = await sign(nip57.makeZapRequest({ event, amount: amountMsats, comment, relays }));
+  const invoice = await fetchZapInvoice(info, zapRequest, amountMsats);
+  await payInvoice(invoice);
+  return invoice;
+};
+
+/** Amount in sats carried by a kind 9735 receipt, falling back to the embedded zap request */
+export const getZapReceiptAmount = (receipt: NostrEvent) => {
+  const bolt11 = receipt.tags.find(t => t[0] === 'bolt11')?.[1];
+  const fromInvoice = bolt11 ? nip57.getSatoshisAmountFromBolt11(bolt11) : 0;
+  if (fromInvoice > 0) return fromInvoice;
+
+  try {
+    const request = JSON.parse(receipt.tags.find(t => t[0] === 'description')?.[1] ?? '');
+    const amount = request.tags?.find((t: string[]) => t[0] === 'amount')?.[1];
+    return amount ? Math.floor(parseInt(amount, 10) / 1000) : 0;
+  } catch (e) {
+    return 0;
+  }
+};
+
+/** The key a user's wallet signs zap receipts with (the LNURL `nostrPubkey`), or null if it cannot receive zaps */
+export const fetchZapperPubkey = async (profile: LightningProfile) => {
+  try {
+    const info = await fetchLnurlPayInfo(profile);
+    return info.allowsNostr && info.nostrPubkey ? info.nostrPubkey : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+/** Anyone can publish a kind 9735; only receipts signed by the recipient's own wallet are real (NIP-57 appendix F) */
+export const isValidZapReceipt = (receipt: NostrEvent, zapperPubkey: string | null | undefined) =>
+  !!zapperPubkey && receipt.pubkey === zapperPubkey;
+
+/** Sums receipts per zapped event id, given the zapper pubkey of each event's author */
+export const sumZapReceipts = (receipts: NostrEvent[], zappers: Record<string, string | null | undefined>) => {
+  const totals: Record<string, number> = {};
+  const seen = new Set<string>();
+  receipts.forEach(receipt => {
+    if (seen.has(receipt.id)) return;
+    seen.add(receipt.id);
+    const eventId = receipt.tags.find(t => t[0] === 'e')?.[1];
+    if (eventId && isValidZapReceipt(receipt, zappers[eventId])) totals[eventId] = (totals[eventId] ?? 0) + getZapReceiptAmount(receipt);
+  });
+  return totals;
+};